@@ -0,0 +1,209 @@
+import type { Err, ErrorCtor, Result } from './types';
+import type { WrapOptions, WrappedError } from './wrap';
+import { ok, err, $ } from './result';
+import { fromPromise } from './wrap';
+
+/**
+ * A Result, or anything that eventually resolves to one.
+ *
+ * @template T - The type of the successful value
+ * @template E - The type of the error
+ */
+export type ResultLike<T, E> = Result<T, E> | PromiseLike<Result<T, E>>;
+
+/**
+ * A chainable, awaitable Result for async pipelines.
+ *
+ * `AsyncResult` is a `PromiseLike<Result<T, E>>`: combinators can be chained
+ * without awaiting each step, and the whole pipeline is awaited once at the end.
+ * Callbacks may return plain values, Results, Promises or other AsyncResults.
+ *
+ * @template T - The type of the successful value
+ * @template E - The type of the error
+ *
+ * @example
+ * ```typescript
+ * const getUser = wrap(fetchUser, { errors: [NetworkError] });
+ * const getOrders = wrap(fetchOrders, { errors: [NetworkError, ParseError] });
+ *
+ * const message = await AsyncResult.from(getUser('42'))
+ *   .andThen(user => getOrders(user.id))
+ *   .map(orders => orders.length)
+ *   .match({
+ *     ok: count => `${count} orders`,
+ *     err: e => matchErrorOfAsync(e)
+ *       .with(NetworkError, async () => 'offline')
+ *       .with(ParseError, async () => 'corrupted')
+ *       .with(UnexpectedError, async () => 'bug')
+ *       .exhaustive(),
+ *   });
+ * ```
+ */
+export class AsyncResult<T, E = unknown> implements PromiseLike<Result<T, E>> {
+  private readonly promise: Promise<Result<T, E>>;
+
+  constructor(result: ResultLike<T, E>) {
+    this.promise = Promise.resolve(result);
+  }
+
+  /**
+   * Creates an AsyncResult from a Result or a promise of a Result.
+   *
+   * @param result - The Result to lift
+   * @returns An AsyncResult resolving to the same Result
+   */
+  static from<T, E>(result: ResultLike<T, E>): AsyncResult<T, E> {
+    return new AsyncResult(result);
+  }
+
+  /**
+   * Creates a successful AsyncResult.
+   *
+   * @param value - The successful value
+   */
+  static ok<T>(value: T): AsyncResult<T, never> {
+    return new AsyncResult(ok(value));
+  }
+
+  /**
+   * Creates a failed AsyncResult.
+   *
+   * @param error - The error
+   */
+  static err<E>(error: E): AsyncResult<never, E> {
+    return new AsyncResult(err(error));
+  }
+
+  /**
+   * Creates an AsyncResult from a promise that may reject.
+   *
+   * @param promise - The promise to convert
+   * @param options - Optional declaration of the errors the promise may reject with
+   * @returns An AsyncResult that never rejects because of `promise`
+   *
+   * @example
+   * ```typescript
+   * const users = AsyncResult.fromPromise(fetchUsers(), { errors: [NetworkError] });
+   * ```
+   */
+  static fromPromise<T>(promise: PromiseLike<T>): AsyncResult<T, unknown>;
+  static fromPromise<T, C extends readonly ErrorCtor<any>[]>(
+    promise: PromiseLike<T>,
+    options: WrapOptions<C>
+  ): AsyncResult<T, WrappedError<C>>;
+  static fromPromise<T>(
+    promise: PromiseLike<T>,
+    options?: WrapOptions<readonly ErrorCtor<any>[]>
+  ): AsyncResult<T, unknown> {
+    return new AsyncResult(fromPromise(promise, options as WrapOptions<readonly ErrorCtor<any>[]>));
+  }
+
+  /** Resolves to the underlying Result, making the AsyncResult awaitable */
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: any) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Unwraps the value inside an async `gen()` body with `yield*`,
+   * short-circuiting on failure.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<Err<E>, T, unknown> {
+    return yield* $(await this.promise);
+  }
+
+  /**
+   * Transforms the successful value, leaving errors untouched.
+   *
+   * @param fn - Function applied to the value (may be async)
+   */
+  map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+    return new AsyncResult(this.promise.then(async (r): Promise<Result<U, E>> =>
+      r.ok ? ok(await fn(r.value)) : r
+    ));
+  }
+
+  /**
+   * Transforms the error, leaving values untouched.
+   *
+   * @param fn - Function applied to the error (may be async)
+   */
+  mapErr<F>(fn: (error: E) => F | PromiseLike<F>): AsyncResult<T, F> {
+    return new AsyncResult(this.promise.then(async (r): Promise<Result<T, F>> =>
+      r.ok ? r : err(await fn(r.error))
+    ));
+  }
+
+  /**
+   * Chains a Result-returning operation; error types accumulate.
+   *
+   * @param fn - Operation run with the value; may return a Result, a Promise or an AsyncResult
+   */
+  andThen<U, F>(fn: (value: T) => ResultLike<U, F>): AsyncResult<U, E | F> {
+    return new AsyncResult(this.promise.then((r): ResultLike<U, E | F> =>
+      r.ok ? fn(r.value) : r
+    ));
+  }
+
+  /**
+   * Recovers from an error with a Result-returning operation.
+   *
+   * @param fn - Operation run with the error; may return a Result, a Promise or an AsyncResult
+   */
+  orElse<U, F>(fn: (error: E) => ResultLike<U, F>): AsyncResult<T | U, F> {
+    return new AsyncResult(this.promise.then((r): ResultLike<T | U, F> =>
+      r.ok ? r : fn(r.error)
+    ));
+  }
+
+  /**
+   * Runs a side effect with the successful value.
+   *
+   * @param fn - Side effect (awaited if it returns a Promise)
+   */
+  tap(fn: (value: T) => unknown): AsyncResult<T, E> {
+    return new AsyncResult(this.promise.then(async (r) => {
+      if (r.ok) await fn(r.value);
+      return r;
+    }));
+  }
+
+  /**
+   * Runs a side effect with the error.
+   *
+   * @param fn - Side effect (awaited if it returns a Promise)
+   */
+  tapErr(fn: (error: E) => unknown): AsyncResult<T, E> {
+    return new AsyncResult(this.promise.then(async (r) => {
+      if (!r.ok) await fn(r.error);
+      return r;
+    }));
+  }
+
+  /**
+   * Resolves to the successful value, or to a fallback on failure.
+   *
+   * @param fallback - Value used if the Result failed
+   */
+  unwrapOr<U>(fallback: U): Promise<T | U> {
+    return this.promise.then(r => r.ok ? r.value : fallback);
+  }
+
+  /**
+   * Folds both branches into a single value.
+   *
+   * Handlers may be async, which makes `matchErrorOfAsync` a natural fit for
+   * the error branch.
+   *
+   * @param handlers - Handlers for the `ok` and `err` branches
+   * @returns A Promise of the result of the handler that ran
+   */
+  match<A, B>(handlers: {
+    ok: (value: T) => A | PromiseLike<A>;
+    err: (error: E) => B | PromiseLike<B>;
+  }): Promise<A | B> {
+    return this.promise.then(r => r.ok ? handlers.ok(r.value) : handlers.err(r.error));
+  }
+}
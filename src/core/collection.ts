@@ -0,0 +1,328 @@
+import type { Err, Ok, Result } from './types';
+import type { ResultLike } from './asyncResult';
+import type { CollectedErrorOf } from '../errors/builtin';
+import { ok, err } from './result';
+import { AsyncResult } from './asyncResult';
+import { CollectedError } from '../errors/builtin';
+
+/**
+ * Extracts the successful value type of a Result.
+ *
+ * @template R - The Result type
+ */
+export type OkValue<R> = R extends Ok<infer T> ? T : never;
+
+/**
+ * Extracts the error type of a Result.
+ *
+ * @template R - The Result type
+ */
+export type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+/**
+ * Maps a tuple of Results to the tuple of their successful values.
+ *
+ * @template Rs - The tuple (or array) of Results
+ */
+export type OkValues<Rs extends readonly unknown[]> = { -readonly [K in keyof Rs]: OkValue<Rs[K]> };
+
+/**
+ * An asynchronous step of a batch: a Result-like value, or a function
+ * producing one (required for the concurrency limit to apply).
+ *
+ * @template T - The type of the successful value
+ * @template E - The type of the error
+ */
+export type ResultTask<T, E> = ResultLike<T, E> | (() => ResultLike<T, E>);
+
+/**
+ * The Result a `ResultTask` settles to.
+ *
+ * @template X - The task type
+ */
+export type SettledResult<X> = X extends () => infer R ? Awaited<R> : Awaited<X>;
+
+/**
+ * Maps a tuple of tasks to the tuple of the Results they settle to.
+ *
+ * @template Ts - The tuple (or array) of tasks
+ */
+export type SettledResults<Ts extends readonly unknown[]> = { -readonly [K in keyof Ts]: SettledResult<Ts[K]> };
+
+/**
+ * Options for the async collection combinators.
+ */
+export interface CollectionOptions {
+  /** Maximum number of tasks running at once: a positive integer, or Infinity (default: unlimited) */
+  concurrency?: number;
+}
+
+/**
+ * Combines Results into a single Result of all values, failing fast with the
+ * first error (in input order).
+ *
+ * Tuple inputs keep their positional types.
+ *
+ * @param results - The Results to combine
+ * @returns A Result of the values, or the first error
+ *
+ * @example
+ * ```typescript
+ * const r = Result.all([getUser('42'), getSettings('42')]);
+ * // Result<[User, Settings], NetworkError | ParseError>
+ * ```
+ */
+export function all<Rs extends readonly Result<unknown, unknown>[]>(
+  results: readonly [...Rs]
+): Result<OkValues<Rs>, ErrValue<Rs[number]>> {
+  const values: unknown[] = [];
+  for (const r of results) {
+    if (!r.ok) return r as Err<ErrValue<Rs[number]>>;
+    values.push(r.value);
+  }
+  return ok(values as OkValues<Rs>);
+}
+
+/**
+ * Combines Results into a single Result of all values, gathering every error
+ * into a `CollectedError` instead of stopping at the first one.
+ *
+ * @param results - The Results to combine
+ * @returns A Result of the values, or a `CollectedError` of all errors
+ *
+ * @example
+ * ```typescript
+ * const form = Result.collect([validateName(input), validateEmail(input)]);
+ * if (!form.ok) {
+ *   form.error.data.errors; // ValidationError[]
+ * }
+ * ```
+ */
+export function collect<Rs extends readonly Result<unknown, unknown>[]>(
+  results: readonly [...Rs]
+): Result<OkValues<Rs>, CollectedErrorOf<ErrValue<Rs[number]>>> {
+  const { values, errors } = partition(results);
+  if (errors.length > 0) return err(collected(errors as ErrValue<Rs[number]>[]));
+  return ok(values as OkValues<Rs>);
+}
+
+/**
+ * Splits Results into their values and their errors, preserving order.
+ *
+ * @param results - The Results to split
+ * @returns The successful values and the errors
+ *
+ * @example
+ * ```typescript
+ * const { values, errors } = Result.partition(ids.map(getUser));
+ * ```
+ */
+export function partition<R extends Result<unknown, unknown>>(
+  results: readonly R[]
+): { values: OkValue<R>[]; errors: ErrValue<R>[] } {
+  const values: OkValue<R>[] = [];
+  const errors: ErrValue<R>[] = [];
+  for (const r of results) {
+    if (r.ok) values.push(r.value as OkValue<R>);
+    else errors.push(r.error as ErrValue<R>);
+  }
+  return { values, errors };
+}
+
+/**
+ * Returns the first successful Result, or a `CollectedError` of every error
+ * if none succeeded.
+ *
+ * @param results - The Results to search
+ * @returns The first value, or all errors
+ *
+ * @example
+ * ```typescript
+ * const config = Result.any([readEnvConfig(), readFileConfig(), readDefaults()]);
+ * ```
+ */
+export function any<R extends Result<unknown, unknown>>(
+  results: readonly R[]
+): Result<OkValue<R>, CollectedErrorOf<ErrValue<R>>> {
+  const errors: ErrValue<R>[] = [];
+  for (const r of results) {
+    if (r.ok) return r as Ok<OkValue<R>>;
+    errors.push(r.error as ErrValue<R>);
+  }
+  return err(collected(errors));
+}
+
+/**
+ * Async counterpart of `all()`: settles the tasks and fails fast with the
+ * first error to arrive. No new task is started after a failure.
+ *
+ * @param tasks - Result-like values, or functions producing them
+ * @param options - Optional concurrency limit (only applies to function tasks)
+ * @returns An AsyncResult of the values, or the first error
+ *
+ * @example
+ * ```typescript
+ * const users = await Result.allAsync(
+ *   ids.map(id => () => safeFetchUser(id)),
+ *   { concurrency: 4 }
+ * );
+ * ```
+ */
+export function allAsync<Ts extends readonly ResultTask<unknown, unknown>[]>(
+  tasks: readonly [...Ts],
+  options?: CollectionOptions
+): AsyncResult<OkValues<SettledResults<Ts>>, ErrValue<SettledResults<Ts>[number]>> {
+  const values: unknown[] = new Array(tasks.length);
+  let failure: Result<never, unknown> | undefined;
+  return new AsyncResult(settle(tasks, options, (r, i) => {
+    if (!r.ok) {
+      failure = r;
+      return true;
+    }
+    values[i] = r.value;
+    return false;
+  }).then(() => failure ?? ok(values))) as AsyncResult<any, any>;
+}
+
+/**
+ * Async counterpart of `collect()`: settles every task and gathers all errors
+ * into a `CollectedError`.
+ *
+ * @param tasks - Result-like values, or functions producing them
+ * @param options - Optional concurrency limit (only applies to function tasks)
+ * @returns An AsyncResult of the values, or a `CollectedError` of all errors
+ */
+export function collectAsync<Ts extends readonly ResultTask<unknown, unknown>[]>(
+  tasks: readonly [...Ts],
+  options?: CollectionOptions
+): AsyncResult<OkValues<SettledResults<Ts>>, CollectedErrorOf<ErrValue<SettledResults<Ts>[number]>>> {
+  return new AsyncResult(settleAll(tasks, options).then(results => collect(results))) as AsyncResult<any, any>;
+}
+
+/**
+ * Async counterpart of `partition()`: settles every task and splits values
+ * from errors, preserving input order.
+ *
+ * @param tasks - Result-like values, or functions producing them
+ * @param options - Optional concurrency limit (only applies to function tasks)
+ * @returns A Promise of the successful values and the errors
+ */
+export function partitionAsync<T extends ResultTask<unknown, unknown>>(
+  tasks: readonly T[],
+  options?: CollectionOptions
+): Promise<{ values: OkValue<SettledResult<T>>[]; errors: ErrValue<SettledResult<T>>[] }> {
+  return settleAll(tasks, options).then(results => partition(results)) as Promise<any>;
+}
+
+/**
+ * Settles every task into its Result, in input order, like `Promise.allSettled()`
+ * for Results. Unlike `partitionAsync()`, the position of each Result is kept,
+ * with its type for tuple inputs.
+ *
+ * @param tasks - Result-like values, or functions producing them
+ * @param options - Optional concurrency limit (only applies to function tasks)
+ * @returns A Promise of the Results
+ *
+ * @example
+ * ```typescript
+ * const [user, settings] = await Result.allSettled([safeFetchUser('42'), safeFetchSettings('42')]);
+ * // [Result<User, NetworkError>, Result<Settings, NetworkError | ParseError>]
+ * ```
+ */
+export function allSettled<Ts extends readonly ResultTask<unknown, unknown>[]>(
+  tasks: readonly [...Ts],
+  options?: CollectionOptions
+): Promise<SettledResults<Ts>> {
+  return settleAll(tasks, options) as Promise<any>;
+}
+
+/**
+ * Async counterpart of `any()`: resolves with the first success to arrive,
+ * or a `CollectedError` of every error (in input order) if all tasks failed.
+ * No new task is started after a success.
+ *
+ * @param tasks - Result-like values, or functions producing them
+ * @param options - Optional concurrency limit (only applies to function tasks)
+ * @returns An AsyncResult of the first value, or all errors
+ */
+export function anyAsync<T extends ResultTask<unknown, unknown>>(
+  tasks: readonly T[],
+  options?: CollectionOptions
+): AsyncResult<OkValue<SettledResult<T>>, CollectedErrorOf<ErrValue<SettledResult<T>>>> {
+  const errors: unknown[] = new Array(tasks.length);
+  let success: Result<unknown, never> | undefined;
+  return new AsyncResult(settle(tasks, options, (r, i) => {
+    if (r.ok) {
+      success = r;
+      return true;
+    }
+    errors[i] = r.error;
+    return false;
+  }).then(() => success ?? err(collected(errors)))) as AsyncResult<any, any>;
+}
+
+/** Builds a CollectedError holding the given errors */
+function collected<E>(errors: E[]): CollectedErrorOf<E> {
+  const message = errors.length === 1 ? '1 operation failed' : `${errors.length} operations failed`;
+  return new CollectedError(message, { errors }) as CollectedErrorOf<E>;
+}
+
+/** Settles every task, keeping input order */
+function settleAll(
+  tasks: readonly ResultTask<unknown, unknown>[],
+  options: CollectionOptions | undefined
+): Promise<Result<unknown, unknown>[]> {
+  const results: Result<unknown, unknown>[] = new Array(tasks.length);
+  return settle(tasks, options, (r, i) => {
+    results[i] = r;
+    return false;
+  }).then(() => results);
+}
+
+/**
+ * Runs tasks with an optional concurrency limit, calling `visit` as each one
+ * settles. Stops launching tasks and resolves as soon as `visit` returns true.
+ *
+ * @throws {RangeError} If the limit is not a positive integer or Infinity, with which no task would start
+ */
+function settle(
+  tasks: readonly ResultTask<unknown, unknown>[],
+  options: CollectionOptions | undefined,
+  visit: (r: Result<unknown, unknown>, index: number) => boolean
+): Promise<void> {
+  const limit = options?.concurrency ?? Infinity;
+  if (limit !== Infinity && !(Number.isInteger(limit) && limit >= 1)) {
+    throw new RangeError(`concurrency must be a positive integer or Infinity, got ${limit}`);
+  }
+  return new Promise((resolve, reject) => {
+    let next = 0;
+    let running = 0;
+    let done = false;
+
+    const launch = () => {
+      while (!done && running < limit && next < tasks.length) {
+        const index = next++;
+        const task = tasks[index];
+        running++;
+        Promise.resolve()
+          .then(() => (typeof task === 'function' ? task() : task))
+          .then((r) => {
+            running--;
+            if (done) return;
+            if (visit(r, index) || (next >= tasks.length && running === 0)) {
+              done = true;
+              resolve();
+              return;
+            }
+            launch();
+          }, (e) => {
+            done = true;
+            reject(e);
+          });
+      }
+    };
+
+    if (tasks.length === 0) resolve();
+    else launch();
+  });
+}
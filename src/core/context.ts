@@ -0,0 +1,128 @@
+import type { ErrorContext } from './types';
+import { settings } from './identity';
+
+/**
+ * Context propagation into errors.
+ *
+ * `withErrorContext()` opens a scope whose context (request id, user id, ...)
+ * is attached to every defined error constructed inside it and to every
+ * failure captured by `wrap()`. Scopes are kept in a `ContextStore`: Node's
+ * `AsyncLocalStorage` when available, so the context follows `await`, timers
+ * and callbacks; a synchronous stack otherwise.
+ */
+
+/**
+ * Where the active error context is kept.
+ *
+ * `AsyncLocalStorage` from `node:async_hooks` satisfies this interface, as do
+ * the equivalents of most server runtimes.
+ */
+export interface ContextStore {
+  /** Returns the context of the current scope, if any */
+  getStore(): ErrorContext | undefined;
+  /** Runs a function in a scope with the given context */
+  run<R>(context: ErrorContext, fn: () => R): R;
+}
+
+/** The parts of Node's `process` used to find `AsyncLocalStorage` */
+interface NodeProcess {
+  getBuiltinModule?: (id: string) => { AsyncLocalStorage?: new () => ContextStore } | undefined;
+}
+
+/**
+ * Runs a function with a context attached to the errors raised inside it.
+ *
+ * Every defined error constructed during the call (including after `await` when
+ * the store is `AsyncLocalStorage`) and every failure captured by `wrap()` gets
+ * the context as its `context` property, which `serialize()` emits.
+ * Nested scopes merge their context over the enclosing one.
+ *
+ * Outside Node, or on Node versions without `process.getBuiltinModule` (18,
+ * and 20 before 20.16), the default store only follows synchronous code, and
+ * warns once when given an async function: give an async-aware store to
+ * `configure({ contextStore })` to keep the context across `await`.
+ *
+ * @template R - The return type of the function
+ * @param context - The fields to attach, such as a request id
+ * @param fn - The function to run
+ * @returns The return value of the function
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => withErrorContext({ requestId: req.id }, next));
+ *
+ * await withErrorContext({ userId: 'u_1' }, async () => {
+ *   await db.connect();
+ *   throw new NetworkError('Request failed', { status: 503, url: '/api' });
+ *   // error.context: { requestId: 'r_42', userId: 'u_1' }
+ * });
+ * ```
+ */
+export function withErrorContext<R>(context: ErrorContext, fn: () => R): R {
+  const store = contextStore();
+  return store.run(Object.freeze({ ...store.getStore(), ...context }), fn);
+}
+
+/**
+ * Returns the context of the current `withErrorContext()` scope.
+ *
+ * @returns The merged context of the enclosing scopes, or undefined outside any scope
+ */
+export function currentErrorContext(): ErrorContext | undefined {
+  return contextStore().getStore();
+}
+
+/**
+ * Attaches a context to an error that has none yet.
+ *
+ * The context is defined as a non-enumerable `context` property, like `cause`.
+ * Values that cannot carry it (primitives, frozen errors) are left untouched.
+ *
+ * @param error - The error to annotate
+ * @param context - The context to attach (default: the current one)
+ */
+export function attachErrorContext(error: unknown, context = currentErrorContext()): void {
+  if (!context || typeof error !== 'object' || error === null) return;
+  if ('context' in error || !Object.isExtensible(error)) return;
+  Object.defineProperty(error, 'context', { value: context, writable: true, configurable: true });
+}
+
+/** Returns the configured store, creating the default one on first use */
+function contextStore(): ContextStore {
+  const config = settings();
+  return (config.contextStore ??= defaultStore());
+}
+
+/** `AsyncLocalStorage` when the runtime provides it, a synchronous stack otherwise */
+function defaultStore(): ContextStore {
+  const env = (globalThis as { process?: NodeProcess }).process;
+  const AsyncLocalStorage = env?.getBuiltinModule?.('node:async_hooks')?.AsyncLocalStorage;
+  return AsyncLocalStorage ? new AsyncLocalStorage() : stackStore();
+}
+
+/** Whether the synchronous store already warned that it lost the context of an async function */
+let warnedAsync = false;
+
+/** A store following synchronous calls only: the context is lost after the first `await` */
+function stackStore(): ContextStore {
+  const stack: ErrorContext[] = [];
+  return {
+    getStore: () => stack[stack.length - 1],
+    run(context, fn) {
+      stack.push(context);
+      try {
+        const result = fn();
+        if (!warnedAsync && typeof (result as { then?: unknown } | null)?.then === 'function') {
+          warnedAsync = true;
+          console.warn(
+            '[ts-typed-errors] withErrorContext() ran an async function without AsyncLocalStorage: ' +
+              'its context is lost after the first await. Pass a store to configure({ contextStore }).'
+          );
+        }
+        return result;
+      } finally {
+        stack.pop();
+      }
+    },
+  };
+}
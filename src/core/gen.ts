@@ -0,0 +1,67 @@
+import type { Err, Result } from './types';
+import { ok } from './result';
+import { AsyncResult } from './asyncResult';
+
+/**
+ * Extracts the error union from the failures yielded by a `gen()` body.
+ *
+ * @template Y - The yield type of the generator
+ */
+export type YieldedError<Y> = Y extends Err<infer E> ? E : never;
+
+/**
+ * Runs a sequence of dependent Result-returning steps written as a generator.
+ *
+ * Inside the body, `yield* $(result)` unwraps a successful Result or
+ * short-circuits the whole computation with the first failure. The error type
+ * of the returned Result is the union of every yielded error type.
+ *
+ * Async generators are supported as well: `yield* $(await promiseOfResult)` or
+ * `yield* asyncResult` unwrap asynchronous steps, and `gen` then returns an
+ * `AsyncResult`.
+ *
+ * @param body - Generator performing the steps
+ * @returns A Result (or AsyncResult for async generators) of the generator's return value
+ *
+ * @example
+ * ```typescript
+ * declare function getUser(id: string): Result<User, NetworkError>;
+ * declare function getOrder(user: User): Result<Order, ParseError>;
+ *
+ * const order = gen(function* () {
+ *   const user = yield* $(getUser('42'));
+ *   const order = yield* $(getOrder(user));
+ *   return order;
+ * }); // Result<Order, NetworkError | ParseError>
+ *
+ * const safeFetchUser = wrap(fetchUser, { errors: [NetworkError] });
+ * const remote = await gen(async function* () {
+ *   const user = yield* $(await safeFetchUser('42'));
+ *   return user.name;
+ * }); // Result<string, NetworkError | UnexpectedError>
+ * ```
+ */
+export function gen<Y extends Err<unknown>, R>(
+  body: () => Generator<Y, R, unknown>
+): Result<R, YieldedError<Y>>;
+export function gen<Y extends Err<unknown>, R>(
+  body: () => AsyncGenerator<Y, R, unknown>
+): AsyncResult<R, YieldedError<Y>>;
+export function gen(
+  body: () => Generator<Err<unknown>, unknown, unknown> | AsyncGenerator<Err<unknown>, unknown, unknown>
+): Result<unknown> | AsyncResult<unknown> {
+  const it = body();
+  if (Symbol.asyncIterator in it) {
+    return new AsyncResult((async () => {
+      const step = await it.next();
+      if (step.done) return ok(step.value);
+      // Run the generator's finally blocks before short-circuiting
+      await it.return(undefined);
+      return step.value;
+    })());
+  }
+  const step = it.next();
+  if (step.done) return ok(step.value);
+  it.return(undefined);
+  return step.value;
+}
@@ -0,0 +1,194 @@
+import type { ErrorCtor } from './types';
+import type { ContextStore } from './context';
+import type { MatcherDiagnosticPolicy } from '../match/diagnostics';
+
+/**
+ * Identity of defined errors across bundles and realms.
+ *
+ * `instanceof` fails when an error comes from another copy of the package
+ * (duplicated ESM/CJS builds, nested dependencies) or from another realm
+ * (iframes, `vm` contexts). Defined errors therefore also carry their lineage
+ * under a `Symbol.for` key, which is shared by every copy and every realm, and
+ * every guard and matcher falls back to comparing it.
+ */
+
+/** Key under which defined errors expose their lineage, shared across bundles and realms */
+export const errorBrand: unique symbol = Symbol.for('ts-typed-errors.lineage') as any;
+
+/**
+ * What to do when two different error classes claim the same tag:
+ * warn on the console, throw, ignore it, or call a custom handler.
+ */
+export type DuplicateTagPolicy = 'warn' | 'throw' | 'ignore' | ((conflict: DuplicateTagConflict) => void);
+
+/**
+ * Describes two error classes claiming the same tag.
+ */
+export interface DuplicateTagConflict {
+  /** The contested tag */
+  tag: string;
+  /** The class that registered the tag first */
+  existing: ErrorCtor<any>;
+  /** The class now claiming the tag */
+  incoming: ErrorCtor<any>;
+}
+
+/**
+ * Library-wide settings.
+ */
+export interface ErrorsConfig {
+  /**
+   * Policy applied when two different classes claim the same tag (default: `'warn'`).
+   *
+   * A class with the same lineage as the one already registered is treated as a
+   * redefinition of it (duplicated bundle, hot reload) and is not reported.
+   */
+  onDuplicateTag?: DuplicateTagPolicy;
+  /**
+   * Where `withErrorContext()` keeps the active context (default: Node's
+   * `AsyncLocalStorage` when available, otherwise a store following synchronous code only).
+   */
+  contextStore?: ContextStore;
+  /**
+   * Policy applied to matcher cases that earlier cases keep from running:
+   * duplicated constructors, unreachable or shadowed cases (default: `'ignore'`).
+   *
+   * Checked once per case, as it is added to a chain (matching never throws
+   * from it), so meant for development and tests.
+   */
+  onMatcherDiagnostic?: MatcherDiagnosticPolicy;
+  /**
+   * Hashes the values of fields hidden with the `'hash'` redaction mode
+   * (default: an unkeyed 53-bit hash, which only keeps casual readers out: a
+   * dictionary attack recovers low-entropy values such as emails).
+   *
+   * Give a keyed hash, such as an HMAC with a secret, before hashed fields
+   * leave your systems.
+   */
+  redactionHash?: (text: string) => string;
+}
+
+/** The settings, with defaults applied where there is one */
+type Settings = ErrorsConfig & { onDuplicateTag: DuplicateTagPolicy };
+
+/** The registry of tags, shared by every copy of the package */
+interface TagRegistry {
+  classes: Map<string, { ctor: ErrorCtor<any>; lineage: readonly string[] }>;
+  config: Settings;
+}
+
+const registryKey = Symbol.for('ts-typed-errors.registry');
+
+/** Returns the global tag registry, creating it on first use */
+function registry(): TagRegistry {
+  const scope = globalThis as unknown as { [registryKey]?: TagRegistry };
+  return (scope[registryKey] ??= { classes: new Map(), config: { onDuplicateTag: 'warn' } });
+}
+
+/**
+ * Updates library-wide settings.
+ *
+ * Settings are shared by every copy of the package loaded in the process.
+ *
+ * @param config - The settings to change
+ *
+ * @example
+ * ```typescript
+ * // Fail fast in tests when two errors are given the same tag
+ * configure({ onDuplicateTag: 'throw' });
+ *
+ * // Report matcher cases that can never run during development
+ * configure({ onMatcherDiagnostic: process.env.NODE_ENV === 'production' ? 'ignore' : 'warn' });
+ *
+ * // Keep the error context across `await` on runtimes without process.getBuiltinModule
+ * configure({ contextStore: new AsyncLocalStorage() });
+ *
+ * // Hash redacted fields with a secret
+ * configure({ redactionHash: text => createHmac('sha256', secret).update(text).digest('hex') });
+ * ```
+ */
+export function configure(config: ErrorsConfig): void {
+  Object.assign(registry().config, config);
+}
+
+/**
+ * Returns the library-wide settings, shared by every copy of the package.
+ *
+ * @returns The live settings object
+ */
+export function settings(): Settings {
+  return registry().config;
+}
+
+/**
+ * Records the tag of a newly defined error class, applying the duplicate-tag policy.
+ *
+ * @param ctor - The new class
+ * @param lineage - Its tag followed by its ancestors' tags
+ */
+export function registerTag(ctor: ErrorCtor<any>, lineage: readonly string[]): void {
+  const { classes, config } = registry();
+  const tag = lineage[0];
+  const existing = classes.get(tag);
+  classes.set(tag, { ctor, lineage });
+  if (!existing || existing.ctor === ctor || sameLineage(existing.lineage, lineage)) return;
+
+  const policy = config.onDuplicateTag;
+  if (policy === 'ignore') return;
+  if (typeof policy === 'function') {
+    policy({ tag, existing: existing.ctor, incoming: ctor });
+    return;
+  }
+  const message = `Error tag "${tag}" is already used by another error class with a different lineage`;
+  if (policy === 'throw') throw new TypeError(message);
+  console.warn(`[ts-typed-errors] ${message}`);
+}
+
+/**
+ * Checks whether a value is an instance of an error class, even across bundles and realms.
+ *
+ * Uses `instanceof`, then, for defined errors, compares the branded lineage.
+ *
+ * @param e - The value to check
+ * @param ctor - The error class
+ * @returns True if the value is an instance of the class or of a class extended from it
+ */
+export function isInstanceOf<T extends Error>(e: unknown, ctor: ErrorCtor<T>): e is T {
+  if (e instanceof ctor) return true;
+  if (typeof e !== 'object' || e === null) return false;
+  const expected = classLineage(ctor);
+  const actual = (e as { [errorBrand]?: unknown })[errorBrand];
+  return expected !== undefined && Array.isArray(actual) && actual.includes(expected[0]);
+}
+
+/**
+ * The lineage of a defined error class.
+ *
+ * Hand-written subclasses (`class Special extends NetworkError {}`) inherit
+ * the brand of their parent without adding a tag, so only a prototype owning
+ * the brand counts: the instances of such subclasses are recognised with
+ * `instanceof` alone.
+ *
+ * @param ctor - The error class
+ * @returns The lineage of the class, or undefined if it is not a defined error class
+ */
+export function classLineage(ctor: ErrorCtor<any>): readonly string[] | undefined {
+  const proto = ctor.prototype as object | undefined;
+  if (!proto || !Object.prototype.hasOwnProperty.call(proto, errorBrand)) return undefined;
+  const lineage = (proto as { [errorBrand]?: unknown })[errorBrand];
+  return Array.isArray(lineage) ? lineage : undefined;
+}
+
+/**
+ * Checks whether a value is a native error, even one created in another realm.
+ *
+ * @param e - The value to check
+ */
+export function isNativeError(e: unknown): e is Error {
+  return e instanceof Error || Object.prototype.toString.call(e) === '[object Error]';
+}
+
+/** Whether two lineages list the same tags */
+function sameLineage(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((tag, i) => tag === b[i]);
+}
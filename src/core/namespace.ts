@@ -0,0 +1,54 @@
+import type { Result as ResultType } from './types';
+import {
+  ok, err, isOk, isErr, map, mapErr, andThen, orElse,
+  unwrapOr, unwrapOrElse, match, tap, tapErr, unwrap, expect,
+} from './result';
+import { all, collect, partition, any, allAsync, collectAsync, partitionAsync, allSettled, anyAsync } from './collection';
+
+/**
+ * Represents the result of an operation that might fail.
+ *
+ * Alias of the `Result` union from `core/types`, merged with the `Result`
+ * namespace object below so that `Result<T, E>` and `Result.all(...)` can be
+ * imported under the same name.
+ *
+ * @template T - The type of the successful value
+ * @template E - The type of the error (defaults to unknown)
+ */
+export type Result<T, E = unknown> = ResultType<T, E>;
+
+/**
+ * Namespace grouping every Result constructor and combinator.
+ *
+ * @example
+ * ```typescript
+ * const both = Result.all([getUser('42'), getSettings('42')]);
+ * const name = Result.unwrapOr(Result.map(getUser('42'), u => u.name), 'anonymous');
+ * ```
+ */
+export const Result = {
+  ok,
+  err,
+  isOk,
+  isErr,
+  map,
+  mapErr,
+  andThen,
+  orElse,
+  unwrapOr,
+  unwrapOrElse,
+  match,
+  tap,
+  tapErr,
+  unwrap,
+  expect,
+  all,
+  collect,
+  partition,
+  any,
+  allAsync,
+  collectAsync,
+  partitionAsync,
+  allSettled,
+  anyAsync,
+};
@@ -0,0 +1,264 @@
+import type { Result, Ok, Err } from './types';
+import { UnwrapError } from '../errors/builtin';
+
+/**
+ * Creates a successful Result.
+ *
+ * @template T - The type of the successful value
+ * @param value - The successful value
+ * @returns A Result in the `ok` state
+ *
+ * @example
+ * ```typescript
+ * const r = ok(42); // Result<number, never>
+ * ```
+ */
+export function ok<T>(value: T): Result<T, never> {
+  return { ok: true, value };
+}
+
+/**
+ * Creates a failed Result.
+ *
+ * @template E - The type of the error
+ * @param error - The error
+ * @returns A Result in the `err` state
+ *
+ * @example
+ * ```typescript
+ * const r = err(new NetworkError('down', { status: 503, url: '/api' }));
+ * // Result<never, NetworkError>
+ * ```
+ */
+export function err<E>(error: E): Result<never, E> {
+  return { ok: false, error };
+}
+
+/**
+ * Unwraps a Result inside a `gen()` body: `yield* $(result)` returns the value
+ * of a successful Result, and yields a failed one, which short-circuits the
+ * generator.
+ *
+ * Accepts any Result, including plain `{ ok, value }` / `{ ok, error }` objects.
+ *
+ * @template T - The type of the successful value
+ * @template E - The type of the error
+ * @param result - The Result to unwrap
+ * @returns A generator to delegate to with `yield*`
+ *
+ * @example
+ * ```typescript
+ * const total = gen(function* () {
+ *   const user = yield* $(getUser('42'));
+ *   const order = yield* $(getOrder(user));
+ *   return order.total;
+ * });
+ * ```
+ */
+export function* $<T, E>(result: Result<T, E>): Generator<Err<E>, T, unknown> {
+  if (result.ok) return result.value;
+  yield result;
+  throw new Error('A failed Result was resumed after short-circuiting');
+}
+
+/**
+ * Type guard that narrows a Result to its successful branch.
+ *
+ * @param r - The Result to check
+ * @returns True if the Result holds a value
+ */
+export function isOk<T, E>(r: Result<T, E>): r is Ok<T> {
+  return r.ok;
+}
+
+/**
+ * Type guard that narrows a Result to its failed branch.
+ *
+ * @param r - The Result to check
+ * @returns True if the Result holds an error
+ */
+export function isErr<T, E>(r: Result<T, E>): r is Err<E> {
+  return !r.ok;
+}
+
+/**
+ * Transforms the value of a successful Result, leaving errors untouched.
+ *
+ * @param r - The Result to transform
+ * @param fn - Function applied to the successful value
+ * @returns A new Result with the transformed value
+ *
+ * @example
+ * ```typescript
+ * const name = map(userResult, (user) => user.name); // Result<string, E>
+ * ```
+ */
+export function map<T, E, U>(r: Result<T, E>, fn: (value: T) => U): Result<U, E> {
+  return r.ok ? ok(fn(r.value)) : r;
+}
+
+/**
+ * Transforms the error of a failed Result, leaving values untouched.
+ *
+ * @param r - The Result to transform
+ * @param fn - Function applied to the error
+ * @returns A new Result with the transformed error
+ *
+ * @example
+ * ```typescript
+ * const r = mapErr(parseResult, (e) => new ValidationError(String(e)));
+ * ```
+ */
+export function mapErr<T, E, F>(r: Result<T, E>, fn: (error: E) => F): Result<T, F> {
+  return r.ok ? r : err(fn(r.error));
+}
+
+/**
+ * Chains a Result-returning operation onto a successful Result.
+ *
+ * The error types of both steps are accumulated in the returned Result.
+ *
+ * @param r - The Result to chain from
+ * @param fn - Operation run with the successful value
+ * @returns The Result of `fn`, or the original error
+ *
+ * @example
+ * ```typescript
+ * declare function getUser(id: string): Result<User, NetworkError>;
+ * declare function getOrder(user: User): Result<Order, ParseError>;
+ *
+ * const order = andThen(getUser('42'), getOrder);
+ * // Result<Order, NetworkError | ParseError>
+ * ```
+ */
+export function andThen<T, E, U, F>(
+  r: Result<T, E>,
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return r.ok ? fn(r.value) : r;
+}
+
+/**
+ * Recovers from a failed Result with a Result-returning operation.
+ *
+ * @param r - The Result to recover
+ * @param fn - Operation run with the error
+ * @returns The original value, or the Result of `fn`
+ *
+ * @example
+ * ```typescript
+ * const user = orElse(getUser('42'), () => getCachedUser('42'));
+ * ```
+ */
+export function orElse<T, E, U, F>(
+  r: Result<T, E>,
+  fn: (error: E) => Result<U, F>
+): Result<T | U, F> {
+  return r.ok ? r : fn(r.error);
+}
+
+/**
+ * Extracts the value of a Result, or returns a fallback on failure.
+ *
+ * @param r - The Result to unwrap
+ * @param fallback - Value returned if the Result failed
+ * @returns The successful value or the fallback
+ */
+export function unwrapOr<T, E, U>(r: Result<T, E>, fallback: U): T | U {
+  return r.ok ? r.value : fallback;
+}
+
+/**
+ * Extracts the value of a Result, or computes a fallback from the error.
+ *
+ * @param r - The Result to unwrap
+ * @param fn - Function computing the fallback from the error
+ * @returns The successful value or the computed fallback
+ */
+export function unwrapOrElse<T, E, U>(r: Result<T, E>, fn: (error: E) => U): T | U {
+  return r.ok ? r.value : fn(r.error);
+}
+
+/**
+ * Folds a Result into a single value by handling both branches.
+ *
+ * @param r - The Result to fold
+ * @param handlers - Handlers for the `ok` and `err` branches
+ * @returns The return value of the handler that ran
+ *
+ * @example
+ * ```typescript
+ * const message = match(result, {
+ *   ok: (user) => `Hello ${user.name}`,
+ *   err: (e) => matchErrorOf<AppError>(e)
+ *     .with(NetworkError, () => 'Offline')
+ *     .with(ParseError, () => 'Corrupted data')
+ *     .exhaustive(),
+ * });
+ * ```
+ */
+export function match<T, E, A, B>(
+  r: Result<T, E>,
+  handlers: { ok: (value: T) => A; err: (error: E) => B }
+): A | B {
+  return r.ok ? handlers.ok(r.value) : handlers.err(r.error);
+}
+
+/**
+ * Runs a side effect with the value of a successful Result.
+ *
+ * @param r - The Result to inspect
+ * @param fn - Side effect run with the successful value
+ * @returns The original Result
+ */
+export function tap<T, E>(r: Result<T, E>, fn: (value: T) => void): Result<T, E> {
+  if (r.ok) fn(r.value);
+  return r;
+}
+
+/**
+ * Runs a side effect with the error of a failed Result.
+ *
+ * @param r - The Result to inspect
+ * @param fn - Side effect run with the error
+ * @returns The original Result
+ *
+ * @example
+ * ```typescript
+ * tapErr(result, (e) => logger.warn(serialize(e)));
+ * ```
+ */
+export function tapErr<T, E>(r: Result<T, E>, fn: (error: E) => void): Result<T, E> {
+  if (!r.ok) fn(r.error);
+  return r;
+}
+
+/**
+ * Extracts the value of a Result, throwing if it failed.
+ *
+ * @param r - The Result to unwrap
+ * @returns The successful value
+ * @throws {UnwrapError} If the Result failed; the original error is in `data.error`
+ */
+export function unwrap<T, E>(r: Result<T, E>): T {
+  if (r.ok) return r.value;
+  throw new UnwrapError('Called unwrap on a failed Result', { error: r.error });
+}
+
+/**
+ * Extracts the value of a Result, throwing with a custom message if it failed.
+ *
+ * @param r - The Result to unwrap
+ * @param message - Message of the thrown error
+ * @returns The successful value
+ * @throws {UnwrapError} If the Result failed; the original error is in `data.error`
+ *
+ * @example
+ * ```typescript
+ * const config = expect(loadConfig(), 'config must be present at startup');
+ * ```
+ */
+export function expect<T, E>(r: Result<T, E>, message: string): T {
+  if (r.ok) return r.value;
+  throw new UnwrapError(message, { error: r.error });
+}
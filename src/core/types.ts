@@ -8,6 +8,305 @@
  */
 export type ErrorCtor<T extends Error = Error> = new (...args: any[]) => T;
 
+/**
+ * How serious an error is, from least to most severe.
+ */
+export type Severity = 'debug' | 'info' | 'warning' | 'error' | 'fatal';
+
+/**
+ * Metadata shared by every instance of a defined error class.
+ *
+ * Given to `defineError` (or `.extend()`), and exposed both as static properties
+ * of the class and as properties of its instances.
+ */
+export interface ErrorMetadata {
+  /** Stable machine-readable code */
+  code?: string;
+  /** HTTP status to respond with */
+  httpStatus?: number;
+  /** How serious the error is */
+  severity?: Severity;
+  /** Whether the failed operation may succeed if retried */
+  retryable?: boolean;
+  /** Link to the documentation of the error */
+  docsUrl?: string;
+}
+
+/**
+ * The metadata fields of an options object.
+ *
+ * @template Options - The options given to `defineError` or `.extend()`
+ */
+export type MetadataOf<Options> = { [K in keyof Options & keyof ErrorMetadata]: Options[K] };
+
+/**
+ * The type of a metadata field, `undefined` when the error class does not set it.
+ *
+ * @template Meta - The metadata of the error class
+ * @template K - The metadata field
+ */
+export type MetadataValue<Meta, K extends keyof ErrorMetadata> = K extends keyof Meta ? Meta[K] : undefined;
+
+/**
+ * Metadata fields as exposed on defined error classes and their instances.
+ *
+ * @template Meta - The metadata of the error class
+ */
+export interface ErrorMetadataFields<Meta = ErrorMetadata> {
+  /** Stable machine-readable code */
+  readonly code: MetadataValue<Meta, 'code'>;
+  /** HTTP status to respond with */
+  readonly httpStatus: MetadataValue<Meta, 'httpStatus'>;
+  /** How serious the error is */
+  readonly severity: MetadataValue<Meta, 'severity'>;
+  /** Whether the failed operation may succeed if retried */
+  readonly retryable: MetadataValue<Meta, 'retryable'>;
+  /** Link to the documentation of the error */
+  readonly docsUrl: MetadataValue<Meta, 'docsUrl'>;
+}
+
+/**
+ * Fields attached to errors raised inside a `withErrorContext()` scope,
+ * such as a request id.
+ */
+export type ErrorContext = Readonly<Record<string, unknown>>;
+
+/**
+ * Instance type of an error class created by `defineError`.
+ *
+ * @template Name - The unique tag of the error
+ * @template Data - The structured data carried by the error
+ * @template Lineage - The tags of this error and all of its ancestors
+ * @template Meta - The metadata of the error class
+ */
+export interface TypedError<
+  Name extends string = string,
+  Data extends object = {},
+  Lineage extends string = Name,
+  Meta = ErrorMetadata
+> extends Error, ErrorMetadataFields<Meta> {
+  /** Unique identifier for this error type */
+  readonly tag: Name;
+  /** Structured data associated with this error */
+  readonly data: Readonly<Data>;
+  /** Tags of this error type and of every ancestor it was extended from */
+  readonly lineage: readonly Lineage[];
+  /** The underlying error this one was raised because of, if any */
+  readonly cause?: unknown;
+  /** The context of the `withErrorContext()` scope the error was raised in, if any */
+  readonly context?: ErrorContext;
+
+  /**
+   * Returns a copy of this error with some changes, keeping its class and its stack.
+   *
+   * @param patch - The data fields, message, cause or context to change
+   * @returns A new instance of the same class
+   */
+  with(patch: ErrorPatch<Data>): this;
+}
+
+/**
+ * Changes applied by `err.with()` and `updateError()`.
+ *
+ * @template Data - The data type of the error
+ */
+export interface ErrorPatch<Data extends object = {}> {
+  /** Data fields to change or add, merged over the current data */
+  data?: Partial<Data>;
+  /** The new message */
+  message?: string;
+  /** The new cause */
+  cause?: unknown;
+  /** Context fields merged over the current context */
+  context?: ErrorContext;
+}
+
+/**
+ * Options accepted by the constructor of a defined error, following ES2022 `Error` options.
+ *
+ * @template Cause - The type of the underlying error
+ */
+export interface ErrorCauseOptions<Cause = unknown> {
+  /** The underlying error this one was raised because of */
+  cause: Cause;
+}
+
+/**
+ * An error class created by `defineError` or by extending one.
+ *
+ * @template Name - The unique tag of the error
+ * @template Data - The structured data carried by the error
+ * @template Lineage - The tags of this error and all of its ancestors
+ * @template Meta - The metadata of the error class
+ */
+export interface ErrorClass<
+  Name extends string = string,
+  Data extends object = {},
+  Lineage extends string = Name,
+  Meta = ErrorMetadata
+> extends ErrorMetadataFields<Meta> {
+  /** Creates the error with a typed `cause` */
+  new <Cause>(
+    message: string | undefined,
+    data: Data | undefined,
+    options: ErrorCauseOptions<Cause>
+  ): TypedError<Name, Data, Lineage, Meta> & { readonly cause: Cause };
+  /** Creates the error from its data and a typed `cause`; the message comes from the `message` template */
+  new <Cause>(data: Data & object, options: ErrorCauseOptions<Cause>): TypedError<Name, Data, Lineage, Meta> & {
+    readonly cause: Cause;
+  };
+  /** Creates the error from its data alone; the message comes from the `message` template */
+  new (data: Data & object): TypedError<Name, Data, Lineage, Meta>;
+  new (message?: string, data?: Data, options?: ErrorCauseOptions): TypedError<Name, Data, Lineage, Meta>;
+  readonly prototype: TypedError<Name, Data, Lineage, Meta>;
+  /** Unique identifier for this error type */
+  readonly tag: Name;
+  /** Tags of this error type and of every ancestor it was extended from */
+  readonly lineage: readonly Lineage[];
+
+  /**
+   * Type guard to check if an unknown value is an instance of this error
+   * or of any error extended from it.
+   *
+   * @param e - The value to check
+   * @returns True if the value is an instance of this error type or a descendant
+   */
+  is(e: unknown): e is TypedError<Name, Data, Lineage, Meta>;
+
+  /**
+   * Creates a child error class that inherits from this one.
+   *
+   * The child's data is merged with the parent's, `instanceof` and `is()` of the
+   * parent recognise the child, and matching the parent covers the child.
+   *
+   * @param name - The unique tag of the child error
+   * @param options - Optional settings; metadata not set here is inherited
+   * @returns A function that creates the child class with optional extra data
+   */
+  extend<Child extends string, Out = {}, const Options extends DefineErrorOptions<Out> = {}>(
+    name: Child,
+    options?: Options & DefineErrorOptions<Out>
+  ): <ChildData extends object = SchemaData<Out>>() => ErrorClass<
+    Child,
+    Data & ChildData,
+    Child | Lineage,
+    Omit<Meta, keyof MetadataOf<Options>> & MetadataOf<Options>
+  >;
+}
+
+/**
+ * Minimal description of a Standard Schema (https://standardschema.dev) object.
+ *
+ * Any validation library implementing the spec (Zod, Valibot, ArkType...) can be
+ * passed as a `schema` to `defineError` without an adapter.
+ *
+ * @template Input - The input type of the schema
+ * @template Output - The output type of the schema
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) =>
+      | StandardSchemaV1.Result<Output>
+      | Promise<StandardSchemaV1.Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+export declare namespace StandardSchemaV1 {
+  /** The outcome of a Standard Schema validation */
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<Issue> };
+
+  /** A single validation problem reported by a Standard Schema */
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+  }
+}
+
+/**
+ * Validates the `data` of a defined error.
+ *
+ * Either a Standard Schema object, or a function that:
+ * - returns `true`/`false` (predicate or type guard),
+ * - returns the parsed data (parser),
+ * - or returns nothing and throws when the data is invalid (assertion).
+ *
+ * @template Out - The validated data type
+ */
+export type DataValidator<Out = unknown> =
+  | StandardSchemaV1<any, Out>
+  | ((data: unknown) => data is Out)
+  | ((data: unknown) => Out | boolean | void);
+
+/**
+ * Options accepted by `defineError` and `.extend()`.
+ *
+ * @template Out - The data type described by `schema`
+ */
+export interface DefineErrorOptions<Out = unknown> extends ErrorMetadata {
+  /**
+   * Validates `data` when the error is constructed and when it is deserialized.
+   * Invalid data raises an `InvalidErrorDataError`.
+   */
+  schema?: DataValidator<Out>;
+  /**
+   * When true, invalid data is kept as-is instead of raising an `InvalidErrorDataError`.
+   */
+  lenient?: boolean;
+  /**
+   * Derives the message from the data when none is given to the constructor.
+   * Either a function of the data, or a template where `{field}` (or `{nested.field}`)
+   * is replaced by the matching data value. Child classes inherit it unless they define their own.
+   */
+  message?: string | ((data: any) => string);
+  /**
+   * Data fields (dotted paths allowed) that must not leave the process as-is.
+   * Every serialization profile but `'debug'` hides them: a list redacts them,
+   * a map chooses how each one is hidden. Child classes add to their parent's fields.
+   */
+  sensitive?: readonly string[] | { readonly [path: string]: RedactionMode };
+  /**
+   * Data fields (dotted paths allowed) meant for internal consumers only;
+   * the `'public'` serialization profile omits them.
+   */
+  internal?: readonly string[];
+  /**
+   * How instances capture their stack trace (default: `'full'`).
+   * Child classes inherit it unless they define their own.
+   */
+  stack?: StackCapture;
+}
+
+/**
+ * How a defined error captures its stack trace:
+ * - `'full'`: as native errors do,
+ * - `'trim'`: without the frames of the error constructors, where `Error.captureStackTrace` exists,
+ * - `'lazy'`: records the call sites at construction, but only formats them when `stack` is first read,
+ *   for errors created on hot paths and rarely logged,
+ * - `'none'`: never; `stack` only holds the `Name: message` line, for control-flow errors.
+ */
+export type StackCapture = 'full' | 'trim' | 'lazy' | 'none';
+
+/**
+ * How a sensitive field is hidden when serialized: replaced by a placeholder,
+ * replaced by a hash of its value (so occurrences can still be correlated), or left out.
+ *
+ * Hashes are unkeyed unless `configure({ redactionHash })` is given a keyed
+ * hash: without one, low-entropy values can be recovered from them.
+ */
+export type RedactionMode = 'redact' | 'hash' | 'omit';
+
+/**
+ * The default data type of an error whose schema validates `Out`.
+ *
+ * @template Out - The data type described by the schema
+ */
+export type SchemaData<Out> = Out extends object ? Out : {};
+
 /**
  * Represents a type guard function.
  * 
@@ -50,6 +349,18 @@ export const isCtor = (fn: any): fn is ErrorCtor<any> =>
  * }
  * ```
  */
-export type Result<T, E = unknown> =
-  | { ok: true; value: T }
-  | { ok: false; error: E };
+export type Result<T, E = unknown> = Ok<T> | Err<E>;
+
+/**
+ * The successful branch of a {@link Result}.
+ *
+ * @template T - The type of the successful value
+ */
+export type Ok<T> = { ok: true; value: T };
+
+/**
+ * The failed branch of a {@link Result}.
+ *
+ * @template E - The type of the error
+ */
+export type Err<E> = { ok: false; error: E };
@@ -1,21 +1,70 @@
-import type { Result } from './types';
+import type { ErrorContext, ErrorCtor, Result } from './types';
+import { ok, err } from './result';
+import { attachErrorContext, currentErrorContext } from './context';
+import { UnexpectedError } from '../errors/builtin';
+import { isAnyOf } from '../utils/guards';
+
+/**
+ * Options accepted by `wrap()`.
+ *
+ * @template C - The tuple of error constructors the wrapped function may throw
+ */
+export interface WrapOptions<C extends readonly ErrorCtor<any>[]> {
+  /**
+   * Error constructors the wrapped function is expected to throw.
+   * Any other thrown value is boxed into an `UnexpectedError`.
+   */
+  errors: C;
+}
+
+/**
+ * Error type of a Result produced with the given `WrapOptions`.
+ *
+ * @template C - The tuple of declared error constructors
+ */
+export type WrappedError<C extends readonly ErrorCtor<any>[]> = InstanceType<C[number]> | UnexpectedError;
+
+/**
+ * Return type of a wrapped function: `Promise<Result>` when the original function
+ * returns a Promise, a plain `Result` otherwise. Functions returning `any`
+ * (such as `JSON.parse`) are treated as synchronous.
+ *
+ * @template R - The return type of the original function
+ * @template E - The error type of the Result
+ */
+export type WrapResult<R, E> =
+  0 extends (1 & R) ? Result<R, E> :
+  [R] extends [never] ? Result<never, E> :
+  R extends PromiseLike<infer U> ? Promise<Result<U, E>> :
+  Result<R, E>;
 
 /**
  * Wraps a function to return a Result type instead of throwing errors.
  * 
  * This utility converts any function that might throw into a function that
  * returns a Result type, making error handling explicit and type-safe.
+ * Synchronous functions return a `Result` directly; functions returning a
+ * Promise return a `Promise<Result>`. A non-`async` function that throws
+ * before returning its Promise yields a plain `Result`, as nothing tells it
+ * apart from a synchronous function then: use `wrapAsync()` for those.
+ *
+ * When `options.errors` is provided, the error channel is typed as the union of
+ * the declared error types plus `UnexpectedError`, which boxes anything else.
+ *
+ * Captured errors get the context of the `withErrorContext()` scope the wrapped
+ * function was called in, unless they already carry one.
  * 
  * @template A - The argument types of the wrapped function
  * @template R - The return type of the wrapped function
  * @param fn - The function to wrap (can be sync or async)
+ * @param options - Optional declaration of the errors `fn` may throw
  * @returns A new function that returns a Result<R> instead of throwing
  * 
  * @example
  * ```typescript
- * // Wrap a function that might throw
+ * // Wrap a synchronous function that might throw
  * const safeParse = wrap(JSON.parse);
- * const result = await safeParse('{"valid": "json"}');
+ * const result = safeParse('{"valid": "json"}'); // no await needed
  * 
  * if (result.ok) {
  *   console.log(result.value); // TypeScript knows this is the parsed object
@@ -23,23 +72,211 @@ import type { Result } from './types';
  *   console.error('Parse failed:', result.error);
  * }
  * 
- * // Works with async functions too
+ * // Async functions return a Promise<Result>
  * const safeFetch = wrap(async (url: string) => {
  *   const response = await fetch(url);
  *   if (!response.ok) throw new Error(`HTTP ${response.status}`);
  *   return response.json();
  * });
+ * const data = await safeFetch('/api');
+ *
+ * // Declare the errors to get a typed error channel
+ * const getUser = wrap(fetchUser, { errors: [NetworkError, ParseError] });
+ * const user = await getUser('42');
+ * if (!user.ok) {
+ *   matchErrorOf(user.error) // NetworkError | ParseError | UnexpectedError
+ *     .with(NetworkError, e => e.data.status)
+ *     .with(ParseError, e => e.data.at)
+ *     .with(UnexpectedError, e => e.cause)
+ *     .exhaustive();
+ * }
  * ```
  */
 export function wrap<A extends any[], R>(
-  fn: (...args: A) => Promise<R> | R
+  fn: (...args: A) => R
+): (...args: A) => WrapResult<R, unknown>;
+export function wrap<A extends any[], R, C extends readonly ErrorCtor<any>[]>(
+  fn: (...args: A) => R,
+  options: WrapOptions<C>
+): (...args: A) => WrapResult<R, WrappedError<C>>;
+export function wrap<A extends any[], R>(
+  fn: (...args: A) => R,
+  options?: WrapOptions<readonly ErrorCtor<any>[]>
+) {
+  return (...args: A): Result<unknown> | Promise<Result<unknown>> => {
+    let v: R;
+    try {
+      v = fn(...args);
+    } catch (e) {
+      return capture(e, options);
+    }
+    if (isPromiseLike(v)) {
+      const context = currentErrorContext();
+      return Promise.resolve(v).then(ok, (e) => capture(e, options, context));
+    }
+    return ok(v);
+  };
+}
+
+/**
+ * Wraps a synchronous function to return a Result type instead of throwing.
+ *
+ * Unlike `wrap()`, the returned function never inspects the return value for
+ * a Promise, which keeps hot synchronous paths (parsers, validators, reducers)
+ * free of `await`.
+ *
+ * @template A - The argument types of the wrapped function
+ * @template R - The return type of the wrapped function
+ * @param fn - The synchronous function to wrap
+ * @param options - Optional declaration of the errors `fn` may throw
+ * @returns A new function that returns a Result<R> instead of throwing
+ *
+ * @example
+ * ```typescript
+ * const parseAge = wrapSync((input: string) => {
+ *   const n = Number(input);
+ *   if (Number.isNaN(n)) throw new ValidationError('Not a number', { field: 'age', value: input });
+ *   return n;
+ * }, { errors: [ValidationError] });
+ *
+ * const r = parseAge('42'); // Result<number, ValidationError | UnexpectedError>
+ * ```
+ */
+export function wrapSync<A extends any[], R>(
+  fn: (...args: A) => R
+): (...args: A) => Result<R>;
+export function wrapSync<A extends any[], R, C extends readonly ErrorCtor<any>[]>(
+  fn: (...args: A) => R,
+  options: WrapOptions<C>
+): (...args: A) => Result<R, WrappedError<C>>;
+export function wrapSync<A extends any[], R>(
+  fn: (...args: A) => R,
+  options?: WrapOptions<readonly ErrorCtor<any>[]>
+) {
+  return (...args: A): Result<R> => {
+    try {
+      return ok(fn(...args));
+    } catch (e) {
+      return capture(e, options);
+    }
+  };
+}
+
+/**
+ * Wraps a function returning a Promise to return a `Promise<Result>` instead of rejecting.
+ *
+ * Unlike `wrap()`, the returned function always returns a Promise, even when
+ * `fn` throws synchronously before returning its Promise (argument checks in
+ * a non-`async` function, for instance).
+ *
+ * @template A - The argument types of the wrapped function
+ * @template R - The return type of the wrapped function
+ * @param fn - The function to wrap
+ * @param options - Optional declaration of the errors `fn` may throw or reject with
+ * @returns A new function that returns a Promise of a Result
+ *
+ * @example
+ * ```typescript
+ * const getUser = wrapAsync((id: string) => {
+ *   if (!id) throw new ValidationError('Missing id', { field: 'id', value: id });
+ *   return fetchUser(id);
+ * }, { errors: [ValidationError, NetworkError] });
+ *
+ * const r = await getUser(''); // Result<User, ValidationError | NetworkError | UnexpectedError>
+ * ```
+ */
+export function wrapAsync<A extends any[], R>(
+  fn: (...args: A) => R
+): (...args: A) => Promise<Result<Awaited<R>>>;
+export function wrapAsync<A extends any[], R, C extends readonly ErrorCtor<any>[]>(
+  fn: (...args: A) => R,
+  options: WrapOptions<C>
+): (...args: A) => Promise<Result<Awaited<R>, WrappedError<C>>>;
+export function wrapAsync<A extends any[], R>(
+  fn: (...args: A) => R,
+  options?: WrapOptions<readonly ErrorCtor<any>[]>
 ) {
-  return async (...args: A): Promise<Result<R>> => {
+  return (...args: A): Promise<Result<unknown>> => {
+    let v: R;
     try {
-      const v = await fn(...args);
-      return { ok: true, value: v };
+      v = fn(...args);
     } catch (e) {
-      return { ok: false, error: e };
+      return Promise.resolve(capture(e, options));
     }
+    const context = currentErrorContext();
+    return Promise.resolve(v).then(ok, (e) => capture(e, options, context));
   };
 }
+
+/**
+ * Converts a Promise into a Promise of a Result that never rejects.
+ *
+ * Useful for promises produced by code you don't own.
+ *
+ * @template T - The resolved type of the promise
+ * @param promise - The promise to convert
+ * @param options - Optional declaration of the errors the promise may reject with
+ * @returns A Promise resolving to a Result
+ *
+ * @example
+ * ```typescript
+ * const r = await fromPromise(fetch('/api/users'));
+ * if (!r.ok) console.error(r.error);
+ * ```
+ */
+export function fromPromise<T>(promise: PromiseLike<T>): Promise<Result<T>>;
+export function fromPromise<T, C extends readonly ErrorCtor<any>[]>(
+  promise: PromiseLike<T>,
+  options: WrapOptions<C>
+): Promise<Result<T, WrappedError<C>>>;
+export function fromPromise<T>(
+  promise: PromiseLike<T>,
+  options?: WrapOptions<readonly ErrorCtor<any>[]>
+): Promise<Result<T>> {
+  const context = currentErrorContext();
+  return Promise.resolve(promise).then(ok, (e) => capture(e, options, context));
+}
+
+/**
+ * Runs a function immediately and captures its outcome as a Result.
+ *
+ * Useful for one-off calls into code you don't own.
+ *
+ * @template T - The return type of the function
+ * @param fn - The function to run
+ * @param options - Optional declaration of the errors `fn` may throw
+ * @returns A Result holding the return value or the thrown error
+ *
+ * @example
+ * ```typescript
+ * const config = fromThrowable(() => JSON.parse(raw));
+ * const value = unwrapOr(config, {});
+ * ```
+ */
+export function fromThrowable<T>(fn: () => T): Result<T>;
+export function fromThrowable<T, C extends readonly ErrorCtor<any>[]>(
+  fn: () => T,
+  options: WrapOptions<C>
+): Result<T, WrappedError<C>>;
+export function fromThrowable<T>(
+  fn: () => T,
+  options?: WrapOptions<readonly ErrorCtor<any>[]>
+): Result<T> {
+  return wrapSync(fn, options as WrapOptions<readonly ErrorCtor<any>[]>)();
+}
+
+/** Turns a thrown value into a failed Result, boxing undeclared errors and attaching the context */
+function capture(
+  e: unknown,
+  options?: WrapOptions<readonly ErrorCtor<any>[]>,
+  context: ErrorContext | undefined = currentErrorContext()
+): Result<never> {
+  const error = options && !isAnyOf(e, options.errors) ? new UnexpectedError(e) : e;
+  attachErrorContext(error, context);
+  return err(error);
+}
+
+/** Checks whether a value is a thenable */
+function isPromiseLike(v: unknown): v is PromiseLike<unknown> {
+  return (typeof v === 'object' || typeof v === 'function') && v !== null && typeof (v as any).then === 'function';
+}
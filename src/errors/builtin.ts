@@ -0,0 +1,106 @@
+import { defineError } from './defineError';
+import { errorBrand } from '../core/identity';
+import { markAggregate } from '../utils/aggregate';
+import type { MatchTrace } from '../match/trace';
+
+export { InvalidErrorDataError } from './defineError';
+export type { ErrorDataIssue } from './defineError';
+
+/**
+ * Errors thrown by the library itself.
+ *
+ * These are regular `defineError` classes, so they can be matched, guarded
+ * and serialized like any user-defined error.
+ */
+
+/**
+ * Thrown by `unwrap()` and `expect()` when called on a failed Result.
+ *
+ * The original error of the Result is available as `data.error`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   unwrap(err(new NetworkError('down', { status: 503, url: '/api' })));
+ * } catch (e) {
+ *   if (UnwrapError.is(e)) {
+ *     console.log(e.data.error); // the NetworkError
+ *   }
+ * }
+ * ```
+ */
+export const UnwrapError = defineError('UnwrapError')<{ error: unknown }>();
+
+/**
+ * Boxes a thrown value that is not one of the error types declared to `wrap()`.
+ *
+ * The original thrown value is kept as the standard `cause`, so nothing is lost
+ * when an unexpected failure is funnelled into a typed error channel, and it
+ * survives `serialize()`.
+ *
+ * @example
+ * ```typescript
+ * const safeLoad = wrap(loadUser, { errors: [NetworkError] });
+ * const r = await safeLoad('42');
+ *
+ * if (!r.ok && r.error instanceof UnexpectedError) {
+ *   console.error('Unexpected failure', r.error.cause);
+ * }
+ * ```
+ */
+export class UnexpectedError extends defineError('UnexpectedError')() {
+  /** The original thrown value */
+  declare readonly cause: unknown;
+
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), undefined, { cause });
+  }
+}
+// Stands for the defined class it extends: owns its brand, so that copies from other bundles are recognised
+Object.defineProperty(UnexpectedError.prototype, errorBrand, { value: UnexpectedError.lineage });
+
+/**
+ * Gathers every failure of a batch of Results.
+ *
+ * Returned by `Result.collect()` and `Result.any()`; the individual errors are
+ * available, in input order, as `data.errors`.
+ *
+ * @example
+ * ```typescript
+ * const r = Result.collect([validateName(input), validateEmail(input)]);
+ * if (!r.ok) {
+ *   r.error.data.errors.forEach(e => console.log(e.message));
+ * }
+ * ```
+ */
+export const CollectedError = defineError('CollectedError')<{ errors: unknown[] }>();
+markAggregate(CollectedError.prototype);
+
+/**
+ * A `CollectedError` whose members are known to be of type `E`.
+ *
+ * @template E - The type of the collected errors
+ */
+export type CollectedErrorOf<E> = Omit<InstanceType<typeof CollectedError>, 'data'> & {
+  readonly data: Readonly<{ errors: E[] }>;
+};
+
+/**
+ * Thrown by `.exhaustive()` when no case matches an error at runtime, as with
+ * values thrown from outside the declared union.
+ *
+ * The unmatched error is available as `data.error`, and the cases tested
+ * against it, each of which failed, as `data.trace`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   matchErrorOf<AppError>(e).with(NetworkError, retry).with(ParseError, report).exhaustive();
+ * } catch (failure) {
+ *   if (NonExhaustiveMatchError.is(failure)) {
+ *     console.error(formatTrace(failure.data.trace));
+ *   }
+ * }
+ * ```
+ */
+export const NonExhaustiveMatchError = defineError('NonExhaustiveMatchError')<{ error: unknown; trace: MatchTrace }>();
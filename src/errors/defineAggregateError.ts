@@ -0,0 +1,71 @@
+import type { DefineErrorOptions, ErrorClass, MetadataOf } from '../core/types';
+import { defineError } from './defineError';
+import { markAggregate } from '../utils/aggregate';
+
+/**
+ * The class of an aggregate error created by `defineAggregateError`.
+ *
+ * @template Name - The unique tag of the error
+ * @template Member - The type of the aggregated errors
+ * @template Data - The other data carried by the error
+ * @template Meta - The metadata of the error class
+ */
+export type AggregateErrorClass<Name extends string, Member, Data extends object = {}, Meta = {}> = ErrorClass<
+  Name,
+  Data & { errors: readonly Member[] },
+  Name,
+  Meta
+>;
+
+/**
+ * Creates a typed aggregate error: an error holding a list of member errors,
+ * like the native `AggregateError`, with a known member type.
+ *
+ * The members are given, and kept, as `data.errors` (a frozen copy). Without a
+ * `message` option, the message counts them. Match aggregates on their
+ * members with `.withEvery()` and `.withSome()`, and take them apart with
+ * `flatten()` and `groupByTag()`.
+ *
+ * @template Name - The unique name/tag for this error type
+ * @param name - The unique identifier for this error type
+ * @param options - The same options as `defineError`; a `schema` replaces the check that `errors` is an array
+ * @returns A function that creates the error class, given the member type and the other data
+ * @throws {InvalidErrorDataError} From the constructor, if `errors` is not an array
+ *
+ * @example
+ * ```typescript
+ * const BatchError = defineAggregateError('BatchError')<ValidationError | NetworkError, { batchId: string }>();
+ *
+ * const e = new BatchError({ batchId: 'b1', errors: [validationError, networkError] });
+ * e.message;     // '2 errors'
+ * e.data.errors; // readonly (ValidationError | NetworkError)[]
+ *
+ * matchError(e)
+ *   .withEvery(BatchError, ValidationError, (batch, errors) => `${errors.length} invalid rows`)
+ *   .withSome(BatchError, NetworkError, () => 'retry the batch')
+ *   .otherwise(() => 'failed');
+ * ```
+ */
+export function defineAggregateError<Name extends string, const Options extends DefineErrorOptions = {}>(
+  name: Name,
+  options?: Options & DefineErrorOptions
+) {
+  return <Member = Error, Data extends object = {}>(): AggregateErrorClass<Name, Member, Data, MetadataOf<Options>> => {
+    const cls = defineError(name, { message: countErrors, schema: checkMembers, ...options })();
+    markAggregate(cls.prototype);
+    return cls as unknown as AggregateErrorClass<Name, Member, Data, MetadataOf<Options>>;
+  };
+}
+
+/** The default message of aggregate errors */
+function countErrors(data: { errors?: readonly unknown[] }): string {
+  const count = data.errors?.length ?? 0;
+  return `${count} error${count === 1 ? '' : 's'}`;
+}
+
+/** Checks that the members are an array, and freezes a copy of it */
+function checkMembers(data: unknown): object {
+  const { errors } = data as { errors?: unknown };
+  if (!Array.isArray(errors)) throw new TypeError('errors must be an array');
+  return { ...(data as object), errors: Object.freeze([...errors]) };
+}
@@ -1,67 +1,462 @@
-import type { ErrorCtor } from '../core/types';
+import type {
+  DataValidator,
+  DefineErrorOptions,
+  ErrorClass,
+  ErrorMetadata,
+  ErrorPatch,
+  MetadataOf,
+  SchemaData,
+  StackCapture,
+  StandardSchemaV1,
+  TypedError,
+} from '../core/types';
+import { errorBrand, isInstanceOf, registerTag } from '../core/identity';
+import { attachErrorContext } from '../core/context';
+import type { RedactionRules } from '../utils/redaction';
+import { redactionKey, redactionRules } from '../utils/redaction';
+import { formatError } from '../utils/format';
+import { captureStack, resumeStackTrace, suspendStackTrace } from '../utils/stack';
 
 /**
  * Creates a typed error constructor with a specific name and optional data.
- * 
+ *
  * This function provides a factory for creating strongly-typed error classes
  * with a unique tag for identification and optional structured data.
- * 
+ * Classes can be specialised with `.extend()` to build error hierarchies.
+ *
  * @template Name - The unique name/tag for this error type
  * @param name - The unique identifier for this error type
+ * @param options - Optional settings, such as a `schema` validating the data at runtime
+ *   or metadata (`code`, `httpStatus`, `severity`, `retryable`, `docsUrl`) shared by all instances
  * @returns A function that creates the error class with optional data type
- * 
+ *
  * @example
  * ```typescript
  * // Define a simple error
  * const ValidationError = defineError('ValidationError')();
- * 
+ *
  * // Define an error with structured data
  * const NetworkError = defineError('NetworkError')<{
  *   statusCode: number;
  *   url: string;
  * }>();
- * 
+ *
  * // Usage
  * throw new ValidationError('Invalid input');
  * throw new NetworkError('Request failed', { statusCode: 404, url: '/api/users' });
- * 
+ *
  * // Type-safe matching
  * if (NetworkError.is(error)) {
  *   console.log(error.data.statusCode); // TypeScript knows this exists
  * }
+ *
+ * // Error hierarchies
+ * const DatabaseError = defineError('DatabaseError')<{ query: string }>();
+ * const ConnectionError = DatabaseError.extend('ConnectionError')<{ host: string }>();
+ *
+ * const e = new ConnectionError('Refused', { query: 'SELECT 1', host: 'db1' });
+ * e instanceof DatabaseError; // true
+ * DatabaseError.is(e);        // true
+ *
+ * // Runtime validation: the data type is inferred from the schema
+ * const PaymentError = defineError('PaymentError', { schema: z.object({ amount: z.number() }) })();
+ * new PaymentError('Declined', { amount: 'ten' } as any); // throws InvalidErrorDataError
+ *
+ * // Messages derived from the data
+ * const HttpError = defineError('HttpError', { message: 'HTTP {status} for {url}' })<{ status: number; url: string }>();
+ * new HttpError({ status: 500, url: '/api' }).message; // 'HTTP 500 for /api'
+ *
+ * // Causes
+ * const e2 = new NetworkError('Request failed', { statusCode: 503, url: '/api' }, { cause: socketError });
+ * e2.cause; // typed as the type of socketError
+ *
+ * // Fields hidden by serialize() outside the 'debug' profile
+ * const AuthError = defineError('AuthError', { sensitive: ['token'], internal: ['userId'] })<{
+ *   token: string;
+ *   userId: string;
+ * }>();
+ *
+ * // Control-flow errors without stack trace
+ * const Cancelled = defineError('Cancelled', { stack: 'none' })();
+ *
+ * // Metadata, available on the class and on its instances
+ * const RateLimited = defineError('RateLimited', { code: 'E_RATE', httpStatus: 429, retryable: true })();
+ * RateLimited.httpStatus;      // 429
+ * new RateLimited().retryable; // true
  * ```
  */
-export function defineError<Name extends string>(name: Name) {
-  return <Data extends object = {}>() => {
-    /**
-     * A typed error class with a unique tag and optional structured data.
-     * 
-     * @param message - Optional error message (defaults to the error name)
-     * @param data - Optional structured data associated with the error
-     */
-    class TE extends Error {
-      /** Unique identifier for this error type */
-      readonly tag = name;
-      /** Structured data associated with this error */
-      readonly data: Readonly<Data>;
-      
-      constructor(message?: string, data?: Data) {
-        super(message ?? name);
-        this.name = name;
-        this.data = data ? Object.freeze(data) : ({} as Readonly<Data>);
-        Object.setPrototypeOf(this, new.target.prototype);
+export function defineError<Name extends string, Out = {}, const Options extends DefineErrorOptions<Out> = {}>(
+  name: Name,
+  options?: Options & DefineErrorOptions<Out>
+) {
+  return <Data extends object = SchemaData<Out>>(): ErrorClass<Name, Data, Name, MetadataOf<Options>> =>
+    createErrorClass(name, Error, [], options ?? {}) as unknown as ErrorClass<Name, Data, Name, MetadataOf<Options>>;
+}
+
+/** The metadata fields, in the order they are serialized */
+export const metadataKeys: readonly (keyof ErrorMetadata)[] = ['code', 'httpStatus', 'severity', 'retryable', 'docsUrl'];
+
+/** Key under which error classes keep their `stack` option, inherited through the prototype chain */
+const stackKey = Symbol('stack');
+
+/** Key under which error classes keep their `message` option, inherited through the prototype chain */
+const messageKey = Symbol('message');
+
+/** The classes built by `createErrorClass`, whose constructors `updateError` calls */
+const definedClasses = new WeakSet<Function>();
+
+/** Errors whose message was derived (from the `message` template, or the tag) rather than given */
+const derivedMessages = new WeakSet<Error>();
+
+/** Number of active `constructLeniently` calls; while positive, validation failures are ignored */
+let lenientDepth = 0;
+
+/**
+ * Constructs an error while ignoring data validation failures.
+ *
+ * Used by `deserialize()` in lenient mode.
+ *
+ * @param ctor - The error constructor
+ * @param message - The error message (undefined to derive it from the template of the class)
+ * @param data - The (possibly invalid) error data
+ * @returns The constructed error
+ */
+export function constructLeniently<T extends Error>(
+  ctor: new (message?: string, data?: any) => T,
+  message: string | undefined,
+  data: unknown
+): T {
+  lenientDepth++;
+  try {
+    return new ctor(message, data);
+  } finally {
+    lenientDepth--;
+  }
+}
+
+/**
+ * Builds the runtime class behind `defineError` and `.extend()`.
+ *
+ * @param name - The unique tag of the error
+ * @param Base - The class to inherit from (`Error` for root errors)
+ * @param ancestors - The lineage of `Base` (empty for root errors)
+ * @param options - The options given to `defineError` or `.extend()`
+ */
+function createErrorClass(
+  name: string,
+  Base: new (message?: string, data?: any, errorOptions?: { cause?: unknown }) => Error,
+  ancestors: readonly string[],
+  options: DefineErrorOptions
+) {
+  const lineage = Object.freeze([name, ...ancestors]);
+
+  /**
+   * A typed error class with a unique tag and optional structured data.
+   *
+   * @param message - Optional error message, or the data alone
+   *   (defaults to the `message` template, then to the error name)
+   * @param data - Optional structured data associated with the error
+   * @param errorOptions - Optional `{ cause }` of the error
+   */
+  class TE extends Base {
+    /** Unique identifier for this error type */
+    static readonly tag = name;
+    /** Tags of this error type and of every ancestor */
+    static readonly lineage = lineage;
+
+    /** Unique identifier for this error type */
+    readonly tag: string;
+    /** Structured data associated with this error */
+    declare readonly data: Readonly<object>;
+
+    constructor(message?: string | object, data?: object, errorOptions?: { cause?: unknown }) {
+      if (typeof message === 'object' && message !== null) {
+        errorOptions = data;
+        data = message;
+        message = undefined;
+      }
+      const derived = message === undefined;
+      // Ancestor and child schemas only describe part of the data: keep the fields they do not know about
+      const checked = options.schema ? validateData(name, options, data, new.target !== TE || Base !== Error) : data;
+      if (message === undefined && options.message !== undefined) {
+        message = formatMessage(options.message, checked ?? {});
       }
-      
-      /**
-       * Type guard to check if an unknown value is an instance of this error.
-       * 
-       * @param e - The value to check
-       * @returns True if the value is an instance of this error type
-       */
-      static is(e: unknown): e is InstanceType<typeof TE> {
-        return e instanceof TE || (typeof e === 'object' && e !== null && (e as any).tag === name);
+      if (Base === Error) {
+        const stack: StackCapture = (new.target.prototype as { [stackKey]?: StackCapture })[stackKey] ?? 'full';
+        const limit = suspendStackTrace(stack);
+        super(message ?? (new.target as unknown as { tag: string }).tag);
+        resumeStackTrace(limit);
+        this.data = checked ? Object.freeze(checked) : {};
+        if (errorOptions && 'cause' in errorOptions) {
+          // Same shape as the native ES2022 `cause`, whatever the runtime
+          Object.defineProperty(this, 'cause', { value: errorOptions.cause, writable: true, configurable: true });
+        }
+        attachErrorContext(this);
+        captureStack(this, stack, new.target);
+      } else {
+        // The parent constructor validates, freezes and assigns the data,
+        // derives the message from its own template if there is still none, and sets the cause
+        super(message, checked, errorOptions);
       }
+      this.tag = name;
+      this.name = name;
+      if (derived) derivedMessages.add(this);
+      Object.setPrototypeOf(this, new.target.prototype);
+    }
+
+    /**
+     * Type guard to check if an unknown value is an instance of this error
+     * or of any error extended from it.
+     *
+     * @param e - The value to check
+     * @returns True if the value is an instance of this error type or a descendant
+     */
+    static is(e: unknown): boolean {
+      if (isInstanceOf(e, TE)) return true;
+      if (typeof e !== 'object' || e === null) return false;
+      const other = e as { tag?: unknown; lineage?: unknown };
+      return other.tag === name || (Array.isArray(other.lineage) && other.lineage.includes(name));
+    }
+
+    /**
+     * Creates a child error class inheriting from this one.
+     *
+     * @param childName - The unique tag of the child error
+     * @param childOptions - Optional settings for the child class
+     * @returns A function that creates the child class with optional extra data
+     */
+    static extend(childName: string, childOptions?: DefineErrorOptions) {
+      return () => createErrorClass(childName, TE, lineage, childOptions ?? {});
     }
-    return TE;
-  };
+  }
+
+  // Shared by all instances, and kept off the instance so it is not serialized
+  Object.defineProperty(TE.prototype, 'lineage', { value: lineage });
+  // Identifies instances across bundles and realms, where `instanceof` fails
+  Object.defineProperty(TE.prototype, errorBrand, { value: lineage });
+  if (Base === Error) {
+    Object.defineProperty(TE.prototype, 'with', {
+      value(this: TypedError<string, object, string, unknown>, patch: ErrorPatch<object>) {
+        return updateError(this, patch);
+      },
+      writable: true,
+      configurable: true,
+    });
+    // Rendering used by Node's util.inspect(), and so by console.log()
+    Object.defineProperty(TE.prototype, Symbol.for('nodejs.util.inspect.custom'), {
+      value(this: Error, _depth: number, inspectOptions?: { colors?: boolean }) {
+        return formatError(this, { colors: inspectOptions?.colors });
+      },
+    });
+  }
+
+  // Metadata not given in the options is inherited from the parent class
+  for (const key of metadataKeys) {
+    const value = key in options ? options[key] : (Base as unknown as ErrorMetadata)[key];
+    Object.defineProperty(TE, key, { value, enumerable: true });
+    Object.defineProperty(TE.prototype, key, { value, writable: true, configurable: true });
+  }
+
+  if (options.stack) Object.defineProperty(TE.prototype, stackKey, { value: options.stack });
+  if (options.message !== undefined) Object.defineProperty(TE.prototype, messageKey, { value: options.message });
+
+  // Read by serialize() to hide sensitive and internal fields
+  const rules = redactionRules((Base.prototype as { [redactionKey]?: RedactionRules })[redactionKey], options);
+  if (rules) Object.defineProperty(TE.prototype, redactionKey, { value: rules });
+
+  definedClasses.add(TE);
+  registerTag(TE, lineage);
+  return TE;
+}
+
+/**
+ * Returns a copy of a defined error with some changes.
+ *
+ * The copy is an instance of the same class, built through the constructors
+ * of `defineError` (so the patched data is validated by the class `schema`),
+ * and keeps the stack, cause and context of the original unless patched.
+ * A message derived from the `message` template is derived again from the
+ * patched data; a message given explicitly is kept. The original error is
+ * left untouched. `err.with(patch)` is a shorthand.
+ *
+ * @param error - The error to copy
+ * @param patch - The data fields, message, cause or context to change
+ * @returns A new instance of the same class
+ * @throws {InvalidErrorDataError} If the patched data does not pass the class `schema`
+ *
+ * @example
+ * ```typescript
+ * const e = new NetworkError('Request failed', { status: 503, url: '/api' });
+ *
+ * const timedOut = updateError(e, { data: { status: 504 }, message: 'Request timed out' });
+ * timedOut.data;  // { status: 504, url: '/api' }
+ * timedOut.stack; // the stack of e
+ *
+ * const tagged = e.with({ context: { region: 'eu-west-1' } });
+ * ```
+ */
+export function updateError<E extends TypedError<string, any, string, any>>(
+  error: E,
+  patch: ErrorPatch<E['data']>
+): E {
+  // Skip constructors written by hand (such as UnexpectedError's), whose signatures differ
+  let ctor: Function | null = error.constructor;
+  while (ctor && !definedClasses.has(ctor)) ctor = Object.getPrototypeOf(ctor);
+  const errorOptions = 'cause' in patch ? { cause: patch.cause } : 'cause' in error ? { cause: error.cause } : undefined;
+  const copy: E = Reflect.construct(
+    (ctor ?? error.constructor) as new (...args: unknown[]) => E,
+    // A message derived from the data is derived again from the patched data
+    [patch.message ?? (derivedMessages.has(error) ? undefined : error.message), { ...error.data, ...patch.data }, errorOptions],
+    error.constructor
+  );
+  Object.defineProperty(copy, 'stack', { value: error.stack, writable: true, configurable: true });
+  if (error.context || patch.context) {
+    const context = Object.freeze({ ...error.context, ...patch.context });
+    Object.defineProperty(copy, 'context', { value: context, writable: true, configurable: true });
+  }
+  return copy;
+}
+
+/**
+ * Whether the message of an error was derived from the `message` template of
+ * its class, rather than given to the constructor.
+ *
+ * @param error - The error
+ */
+export function hasDerivedMessage(error: Error): boolean {
+  return derivedMessages.has(error);
+}
+
+/**
+ * The message of an error for output whose data is redacted.
+ *
+ * A message derived from the `message` template is derived again from the
+ * redacted data, so sensitive fields do not leak through it; omitted fields
+ * read `[REDACTED]`. A message given explicitly is returned as is.
+ *
+ * @param error - The error
+ * @param data - Its redacted data
+ * @returns The message to output
+ */
+export function redactedMessage(error: Error, data: object): string {
+  const template = (error as { [messageKey]?: string | ((data: any) => string) })[messageKey];
+  if (template === undefined || !derivedMessages.has(error)) return error.message;
+  return formatMessage(template, data, '[REDACTED]');
+}
+
+/**
+ * A validation problem found in the data of a defined error.
+ */
+export interface ErrorDataIssue {
+  /** Human readable description of the problem */
+  message: string;
+  /** Path of the offending field, if known */
+  path?: PropertyKey[];
+}
+
+/**
+ * Raised when the data given to a defined error does not pass its `schema`.
+ *
+ * Thrown by the constructor, and returned by `deserialize()` in place of the
+ * requested error when a serialized payload is malformed.
+ *
+ * @example
+ * ```typescript
+ * const r = wrapSync(() => new PaymentError('Declined', input))();
+ * if (!r.ok && InvalidErrorDataError.is(r.error)) {
+ *   console.log(r.error.data.tag, r.error.data.issues);
+ * }
+ * ```
+ */
+export const InvalidErrorDataError = createErrorClass('InvalidErrorDataError', Error, [], {}) as unknown as ErrorClass<
+  'InvalidErrorDataError',
+  {
+    /** Tag of the error whose data was rejected */
+    tag: string;
+    /** The problems reported by the schema */
+    issues: ErrorDataIssue[];
+    /** The rejected data */
+    received: unknown;
+  }
+>;
+
+/**
+ * Derives an error message from a `message` template or function.
+ *
+ * Placeholders whose path does not exist in the data are left untouched, or replaced by `missing`.
+ */
+function formatMessage(template: string | ((data: any) => string), data: object, missing?: string): string {
+  if (typeof template === 'function') return template(data);
+  return template.replace(/\{([\w$.]+)\}/g, (placeholder, path: string) => {
+    let value: unknown = data;
+    for (const key of path.split('.')) {
+      if (typeof value !== 'object' || value === null || !(key in value)) return missing ?? placeholder;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return String(value);
+  });
+}
+
+/**
+ * Runs the schema of a defined error against its data.
+ *
+ * @param partial - Whether the schema only describes part of the data: that of a child class, or of an ancestor of the constructed error
+ * @returns The validated (possibly parsed) data, or the original data in lenient mode
+ * @throws {InvalidErrorDataError} If the data is invalid and lenient mode is off
+ */
+function validateData(
+  name: string,
+  options: DefineErrorOptions,
+  data: object | undefined,
+  partial: boolean
+): object | undefined {
+  const outcome = runValidator(options.schema as DataValidator, data ?? {});
+  if (outcome.ok) {
+    if (outcome.value === undefined) return data;
+    return partial ? { ...data, ...(outcome.value as object) } : (outcome.value as object);
+  }
+  if (options.lenient || lenientDepth > 0) return data;
+  throw new InvalidErrorDataError(`Invalid data for ${name}: ${outcome.issues.map(i => i.message).join('; ')}`, {
+    tag: name,
+    issues: outcome.issues,
+    received: data,
+  });
+}
+
+/**
+ * Normalises the supported validator shapes into a single outcome.
+ *
+ * `value` is undefined when the validator only checked the data without parsing it.
+ */
+function runValidator(
+  validator: DataValidator,
+  data: unknown
+): { ok: true; value: unknown } | { ok: false; issues: ErrorDataIssue[] } {
+  // Checked first, as Standard Schemas may be callable too (ArkType types are)
+  if (!('~standard' in validator)) {
+    let value: unknown;
+    try {
+      value = validator(data);
+    } catch (e) {
+      return { ok: false, issues: [{ message: e instanceof Error ? e.message : String(e) }] };
+    }
+    if (value === false) return { ok: false, issues: [{ message: 'Data does not satisfy the schema' }] };
+    return { ok: true, value: typeof value === 'object' && value !== null ? value : undefined };
+  }
+
+  const outcome = validator['~standard'].validate(data);
+  if (typeof (outcome as Promise<unknown>).then === 'function') {
+    throw new TypeError('Asynchronous schemas are not supported for error data');
+  }
+  const result = outcome as StandardSchemaV1.Result<unknown>;
+  if (result.issues) {
+    return {
+      ok: false,
+      issues: result.issues.map(issue => ({
+        message: issue.message,
+        ...(issue.path ? { path: issue.path.map(p => (typeof p === 'object' ? p.key : p)) } : {}),
+      })),
+    };
+  }
+  return { ok: true, value: result.value };
 }
@@ -0,0 +1,143 @@
+import type {
+  DataValidator,
+  DefineErrorOptions,
+  ErrorClass,
+  ErrorCtor,
+  MetadataOf,
+  StandardSchemaV1,
+} from '../core/types';
+import { defineError } from './defineError';
+
+/**
+ * Describes one member of an error family given to `defineErrors`:
+ * - an existing error class, used as-is,
+ * - a validator (Standard Schema, function, or `errorData<T>()`) for its data,
+ * - or the full `defineError` options.
+ */
+export type ErrorSpec = ErrorClass<any, any, any, any> | DataValidator<any> | DefineErrorOptions<any>;
+
+/**
+ * The data type described by a validator (`{}` for plain predicates).
+ *
+ * @template V - The validator
+ */
+export type ValidatorData<V> = V extends StandardSchemaV1<any, infer Out>
+  ? ObjectData<Out>
+  : V extends (data: unknown) => data is infer Out
+    ? ObjectData<Out>
+    : V extends (data: unknown) => infer Out
+      ? ObjectData<Exclude<Out, boolean | void>>
+      : {};
+
+/** Keeps object types, falling back to `{}` for anything else */
+type ObjectData<T> = [T] extends [never] ? {} : T extends object ? T : {};
+
+/**
+ * The error class built for a member of an error family.
+ *
+ * @template Name - The key of the member, used as its tag
+ * @template S - The member's spec
+ */
+export type SpecClass<Name extends string, S> = S extends ErrorClass<any, any, any, any>
+  ? S
+  : S extends DataValidator<any>
+    ? ErrorClass<Name, ValidatorData<S>, Name, {}>
+    : ErrorClass<Name, ValidatorData<S extends { schema: infer V } ? V : undefined>, Name, MetadataOf<S>>;
+
+/**
+ * A set of error classes keyed by name, as returned by `defineErrors`.
+ *
+ * Accepted by `deserialize()`, `fromJSON()` and `matchErrorOf()` in place of
+ * a list of constructors.
+ *
+ * @template Classes - The error classes, by name
+ */
+export type ErrorRegistry<Classes extends Record<string, ErrorCtor<any>> = Record<string, ErrorCtor<any>>> =
+  Readonly<Classes>;
+
+/**
+ * The union of the instance types of a registry's error classes.
+ *
+ * @template R - The registry
+ *
+ * @example
+ * ```typescript
+ * type AppError = ErrorOf<typeof AppErrors>;
+ * ```
+ */
+export type ErrorOf<R extends ErrorRegistry> = InstanceType<R[keyof R]>;
+
+/**
+ * Declares the data type of a family member without validating it at runtime.
+ *
+ * @template T - The data type
+ * @returns A validator accepting any data, typed as `T`
+ *
+ * @example
+ * ```typescript
+ * const AppErrors = defineErrors({ NotFound: errorData<{ id: string }>() });
+ * ```
+ */
+export function errorData<T extends object>(): (data: unknown) => data is T {
+  return (_data: unknown): _data is T => true;
+}
+
+/**
+ * Defines a family of errors at once.
+ *
+ * Each key becomes the tag of its error class. The returned registry holds the
+ * classes, can be passed to `deserialize()`, `fromJSON()` and `matchErrorOf()`,
+ * and gives the family's union type through `ErrorOf`.
+ *
+ * @param specs - The members of the family, by name
+ * @returns A frozen registry of the error classes
+ * @throws {TypeError} If two members share the same tag
+ *
+ * @example
+ * ```typescript
+ * const AppErrors = defineErrors({
+ *   NetworkError: errorData<{ status: number; url: string }>(),
+ *   ParseError: z.object({ at: z.string() }),
+ *   RateLimited: { httpStatus: 429, retryable: true },
+ *   AuthError, // an existing defineError class
+ * });
+ * type AppError = ErrorOf<typeof AppErrors>;
+ *
+ * throw new AppErrors.NetworkError('Request failed', { status: 500, url: '/api' });
+ *
+ * const restored = deserialize(payload, AppErrors);
+ * matchErrorOf(restored, AppErrors)
+ *   .with(AppErrors.NetworkError, e => e.data.status)
+ *   // ...
+ * ```
+ */
+export function defineErrors<const Specs extends Record<string, ErrorSpec>>(
+  specs: Specs
+): ErrorRegistry<{ [K in keyof Specs & string]: SpecClass<K, Specs[K]> }> {
+  const registry: Record<string, ErrorCtor<any>> = {};
+  const tags = new Set<string>();
+
+  for (const [name, spec] of Object.entries(specs)) {
+    const ctor = isErrorClass(spec)
+      ? spec
+      : defineError(name, isValidator(spec) ? { schema: spec } : spec)();
+    if (tags.has(ctor.tag)) {
+      throw new TypeError(`Duplicate error tag "${ctor.tag}" in defineErrors()`);
+    }
+    tags.add(ctor.tag);
+    registry[name] = ctor;
+  }
+
+  return Object.freeze(registry) as any;
+}
+
+/** Whether a spec is an already defined error class */
+function isErrorClass(spec: ErrorSpec): spec is ErrorClass<any, any, any, any> {
+  return typeof spec === 'function' && typeof (spec as { tag?: unknown }).tag === 'string'
+    && typeof (spec as { is?: unknown }).is === 'function';
+}
+
+/** Whether a spec is a validator (a Standard Schema, callable or not, or a function) rather than an options object */
+function isValidator(spec: ErrorSpec): spec is DataValidator<any> {
+  return '~standard' in spec || typeof spec === 'function';
+}
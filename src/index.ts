@@ -1,12 +1,52 @@
 export * from './core/types';
-export { wrap } from './core/wrap';
+export { wrap, wrapSync, wrapAsync, fromPromise, fromThrowable } from './core/wrap';
+export type { WrapOptions, WrappedError, WrapResult } from './core/wrap';
+export {
+  ok, err, isOk, isErr, map, mapErr, andThen, orElse,
+  unwrapOr, unwrapOrElse, match, tap, tapErr, unwrap, expect, $,
+} from './core/result';
+export { Result } from './core/namespace';
+export type {
+  OkValue, ErrValue, OkValues, ResultTask, SettledResult, SettledResults, CollectionOptions,
+} from './core/collection';
+export { AsyncResult } from './core/asyncResult';
+export type { ResultLike } from './core/asyncResult';
+export { gen } from './core/gen';
+export type { YieldedError } from './core/gen';
 
-export { defineError } from './errors/defineError';
+export { withErrorContext, currentErrorContext } from './core/context';
+export type { ContextStore } from './core/context';
+export { configure } from './core/identity';
+export type { ErrorsConfig, DuplicateTagPolicy, DuplicateTagConflict } from './core/identity';
+export { defineError, updateError } from './errors/defineError';
+export { defineErrors, errorData } from './errors/defineErrors';
+export { defineAggregateError } from './errors/defineAggregateError';
+export type { AggregateErrorClass } from './errors/defineAggregateError';
+export type { ErrorSpec, ErrorRegistry, ErrorOf, SpecClass, ValidatorData } from './errors/defineErrors';
+export { UnwrapError, UnexpectedError, CollectedError, InvalidErrorDataError, NonExhaustiveMatchError } from './errors/builtin';
+export type { CollectedErrorOf, ErrorDataIssue } from './errors/builtin';
 
 export { matchError, matchErrorOf, matchErrorAsync, matchErrorOfAsync } from './match/public';
-export type { Matcher, AsyncMatcher, HandlerInput } from './match/public';
+export type { Matcher, AsyncMatcher, FreeMatcher, AsyncFreeMatcher, HandlerInput, Next, Descendants, ExhaustiveThis } from './match/public';
+export { createMatcher } from './match/compiled';
+export type { MatcherBuilder } from './match/compiled';
+export type { MatcherDiagnostic, MatcherDiagnosticPolicy } from './match/diagnostics';
+export { formatTrace } from './match/trace';
+export type { MatchTrace, TraceStep, CaseKind } from './match/trace';
+export { P } from './match/pattern';
+export type { Pattern, PatternMatcher, ErrorPattern, NarrowError, PatternNext } from './match/pattern';
 
-export { isError, hasCode, isErrorOf, isAnyOf, isAllOf } from './utils/guards';
+export { isError, hasCode, isErrorOf, isAnyOf, isAllOf, isRetryable, severityOf } from './utils/guards';
+export { causeChain, rootCause, findCause, hasCause } from './utils/cause';
+export { flatten, groupByTag } from './utils/aggregate';
+export type { AggregateMembers, LeafErrors, ErrorsByTag } from './utils/aggregate';
 
 export { serialize, deserialize, toJSON, fromJSON } from './utils/serialization';
-export type { SerializedError } from './utils/serialization';
+export type { SerializedError, SerializeOptions, DeserializeOptions } from './utils/serialization';
+export type { SerializeProfile } from './utils/redaction';
+
+export { stackFrames } from './utils/stack';
+export type { StackFrame } from './utils/stack';
+
+export { formatError } from './utils/format';
+export type { FormatErrorOptions } from './utils/format';
@@ -1,31 +1,105 @@
 import type { ErrorCtor, Guard } from '../core/types';
 import { isCtor } from '../core/types';
+import { isInstanceOf } from '../core/identity';
+import { aggregatedErrors } from '../utils/aggregate';
+import { matchesErrorPattern } from './pattern';
+import { dispatcher, firstMatch } from './dispatch';
+import { ctorLabel, reportLastCase } from './diagnostics';
+import type { DiagnosedCase } from './diagnostics';
+import { logTrace, traceCases, unmatchedTrace } from './trace';
+import type { CaseKind, MatchTrace } from './trace';
+import { NonExhaustiveMatchError } from '../errors/builtin';
 
 /** Internal case representation */
-interface CaseRunner<R> { test: (e: unknown) => boolean; run: (e: any) => R }
+interface CaseRunner<R> extends DiagnosedCase { kind: CaseKind; run: (e: any) => R }
 
 /** Internal async case representation */
-interface AsyncCaseRunner<R> { test: (e: unknown) => boolean; run: (e: any) => Promise<R> }
+interface AsyncCaseRunner<R> extends DiagnosedCase { kind: CaseKind; run: (e: any) => Promise<R> }
+
+/** Receives the trace of each match of a matcher in debug mode */
+type TraceSink = (trace: MatchTrace) => void;
+
+/**
+ * Returns the first case matching an error, recording a trace when a sink is given.
+ *
+ * @param cases - The cases, in order
+ * @param e - The error to match
+ * @param sink - The sink of `.debug()`, if enabled
+ */
+function findCase<C extends CaseRunner<any> | AsyncCaseRunner<any>>(
+  cases: readonly C[],
+  e: unknown,
+  sink: TraceSink | undefined
+): C | undefined {
+  if (!sink) return firstMatch(cases, e);
+  const trace = traceCases(cases, e);
+  sink(trace);
+  return trace.matched === undefined ? undefined : cases[trace.matched];
+}
+
+/** The error thrown by `.exhaustive()` when no case matches */
+function nonExhaustive(cases: readonly (CaseRunner<any> | AsyncCaseRunner<any>)[], e: unknown, name: string) {
+  return new NonExhaustiveMatchError(`Non-exhaustive ${name}`, { error: e, trace: unmatchedTrace(cases, e) });
+}
+
+/** The label of a guard or predicate function */
+function fnLabel(fn: { name: string }, fallback: string): string {
+  return fn.name || fallback;
+}
+
+/** The label of a list of constructors, as written in the chain */
+function ctorsLabel(ctors: ErrorCtor<any> | readonly ErrorCtor<any>[]): string {
+  return Array.isArray(ctors) ? `[${ctors.map(ctorLabel).join(', ')}]` : ctorLabel(ctors as ErrorCtor<any>);
+}
+
+/**
+ * Tests an aggregate error against a member type.
+ *
+ * @param every - Whether every member (at least one) must match, rather than some
+ */
+function membersMatch(e: unknown, agg: ErrorCtor<any>, member: ErrorCtor<any>, every: boolean): boolean {
+  if (!isInstanceOf(e, agg)) return false;
+  const members = aggregatedErrors(e) ?? [];
+  return every
+    ? members.length > 0 && members.every(m => isInstanceOf(m, member))
+    : members.some(m => isInstanceOf(m, member));
+}
+
+/** Tests an error against a constructor or guard, then against a pattern */
+function patternMatch(e: unknown, ctorOrGuard: ErrorCtor<any> | Guard<any>, pattern: object): boolean {
+  const matched = isCtor(ctorOrGuard) ? isInstanceOf(e, ctorOrGuard) : ctorOrGuard(e);
+  return matched && matchesErrorPattern(e, pattern);
+}
+
+/** The members of an aggregate error that are instances of a type */
+function membersOf(e: unknown, member: ErrorCtor<any>): unknown[] {
+  return (aggregatedErrors(e) ?? []).filter(m => isInstanceOf(m, member));
+}
 
 /** Core builder for matchers */
 export function baseMatcher<R = any>() {
   const cases: CaseRunner<R>[] = [];
-  // Optimization: lookup table for tag-based matching
-  const tagHandlers: Map<string, (e: any) => R> = new Map();
-  let hasTagHandlers = false;
+  let sink: TraceSink | undefined;
+
+  /** Adds a case, diagnosed against the earlier ones */
+  function add(c: CaseRunner<R>) {
+    cases.push(c);
+    reportLastCase(cases);
+  }
 
   function withGuard<T>(guard: Guard<T>, handler: (e: T) => R) {
-    cases.push({ test: guard as any, run: handler as any });
+    add({ test: guard as any, run: handler as any, kind: 'guard', label: `.with(${fnLabel(guard, 'guard')})` });
     return api;
   }
   function withCtor<T extends Error>(ctor: ErrorCtor<T>, handler: (e: T) => R) {
-    // Optimization: if the constructor has a static tag/name, use tag-based lookup
-    const tag = (ctor as any).prototype?.tag;
-    if (tag && typeof tag === 'string') {
-      tagHandlers.set(tag, handler as any);
-      hasTagHandlers = true;
-    }
-    cases.push({ test: (e) => e instanceof ctor, run: handler as any });
+    add({
+      test: (e) => isInstanceOf(e, ctor),
+      run: handler as any,
+      ctors: [ctor],
+      exact: true,
+      kind: 'ctor',
+      label: `.with(${ctorLabel(ctor)})`,
+    });
     return api;
   }
   function selectCtor<T extends Error, K extends string>(
@@ -33,53 +107,96 @@ export function baseMatcher<R = any>() {
     key: K,
     handler: (value: any) => R
   ) {
-    cases.push({
-      test: (e) => e instanceof ctor,
+    add({
+      test: (e) => isInstanceOf(e, ctor),
       run: (e: any) => {
         const value = (e as any).data?.[key];
         return handler(value);
-      }
+      },
+      ctors: [ctor],
+      exact: true,
+      kind: 'select',
+      label: `.select(${ctorLabel(ctor)}, '${key}')`,
     });
     return api;
   }
   function withAnyCtor<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => R) {
-    cases.push({
-      test: (e) => ctors.some(ctor => e instanceof ctor),
-      run: handler as any
+    add({
+      test: (e) => ctors.some(ctor => isInstanceOf(e, ctor)),
+      run: handler as any,
+      ctors,
+      exact: true,
+      kind: 'withAny',
+      label: `.withAny(${ctorsLabel(ctors)})`,
     });
     return api;
   }
-  function withNotCtor<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => R) {
+  function withNotCtor<T extends Error>(ctors: ErrorCtor<T> | readonly ErrorCtor<T>[], handler: (e: any) => R) {
     const ctorArray = Array.isArray(ctors) ? ctors : [ctors];
-    cases.push({
-      test: (e) => !ctorArray.some(ctor => e instanceof ctor),
-      run: handler as any
+    add({
+      test: (e) => !ctorArray.some(ctor => isInstanceOf(e, ctor)),
+      run: handler as any,
+      except: ctorArray,
+      kind: 'withNot',
+      label: `.withNot(${ctorsLabel(ctors)})`,
+    });
+    return api;
+  }
+  function withMembers<A extends Error, M extends Error>(
+    agg: ErrorCtor<A>,
+    member: ErrorCtor<M>,
+    every: boolean,
+    handler: (e: A, members: M[]) => R
+  ) {
+    add({
+      test: (e) => membersMatch(e, agg, member, every),
+      run: (e: any) => handler(e, membersOf(e, member) as M[]),
+      ctors: [agg],
+      kind: every ? 'withEvery' : 'withSome',
+      label: `.${every ? 'withEvery' : 'withSome'}(${ctorLabel(agg)}, ${ctorLabel(member)})`,
+    });
+    return api;
+  }
+  function withPattern(ctorOrGuard: ErrorCtor<any> | Guard<any>, pattern: object, handler: (e: any) => R) {
+    add({
+      test: (e) => patternMatch(e, ctorOrGuard, pattern),
+      run: handler,
+      ctors: isCtor(ctorOrGuard) ? [ctorOrGuard] : undefined,
+      kind: 'pattern',
+      label: `.with(${isCtor(ctorOrGuard) ? ctorLabel(ctorOrGuard) : fnLabel(ctorOrGuard, 'guard')}, pattern)`,
     });
     return api;
   }
   function when(pred: (e: any) => boolean, handler: (e: any) => R) {
-    cases.push({ test: pred, run: handler });
+    add({ test: pred, run: handler, kind: 'when', label: `.when(${fnLabel(pred, 'predicate')})` });
     return api;
   }
   function otherwise(e: unknown, fallback: (e: unknown) => R): R {
-    // Fast path: try tag-based lookup first
-    if (hasTagHandlers && typeof e === 'object' && e !== null && 'tag' in e) {
-      const handler = tagHandlers.get((e as any).tag);
-      if (handler) return handler(e);
-    }
-    // Fallback: iterate through cases
-    for (const c of cases) if (c.test(e)) return c.run(e);
+    // The first matching case wins
+    const c = findCase(cases, e, sink);
+    if (c) return c.run(e);
     return fallback(e);
   }
   function runExhaustive(e: unknown): R {
-    // Fast path: try tag-based lookup first
-    if (hasTagHandlers && typeof e === 'object' && e !== null && 'tag' in e) {
-      const handler = tagHandlers.get((e as any).tag);
-      if (handler) return handler(e);
-    }
-    // Fallback: iterate through cases
-    for (const c of cases) if (c.test(e)) return c.run(e);
-    throw new Error('Non-exhaustive matchErrorOf');
+    // The first matching case wins
+    const c = findCase(cases, e, sink);
+    if (c) return c.run(e);
+    throw nonExhaustive(cases, e, 'matchErrorOf');
+  }
+  function debug(trace: TraceSink = logTrace) {
+    sink = trace;
+    return api;
+  }
+  /** Compiles the current cases, throwing for unmatched errors when there is no fallback */
+  function compile(fallback?: (e: unknown) => R): (e: unknown) => R {
+    const compiled = cases.slice();
+    const dispatch = dispatcher(compiled);
+    return (e) => {
+      const c = dispatch(e);
+      if (c) return c.run(e);
+      if (fallback) return fallback(e);
+      throw nonExhaustive(compiled, e, 'createMatcher');
+    };
   }
 
   const api = {
@@ -88,12 +205,29 @@ export function baseMatcher<R = any>() {
         ? withCtor(ctorOrGuard as ErrorCtor<any>, handler as any)
         : withGuard(ctorOrGuard as Guard<any>, handler as any);
     },
+    withPattern,
     withAny: withAnyCtor,
     withNot: withNotCtor,
+    withEvery<A extends Error, M extends Error>(
+      agg: ErrorCtor<A>,
+      member: ErrorCtor<M>,
+      handler: (e: A, members: M[]) => R
+    ) {
+      return withMembers(agg, member, true, handler);
+    },
+    withSome<A extends Error, M extends Error>(
+      agg: ErrorCtor<A>,
+      member: ErrorCtor<M>,
+      handler: (e: A, members: M[]) => R
+    ) {
+      return withMembers(agg, member, false, handler);
+    },
     select: selectCtor,
     when,
+    debug,
     _otherwise: otherwise,
     _exhaustive: runExhaustive,
+    _compile: compile,
   };
   return api;
 }
@@ -101,36 +235,48 @@ export function baseMatcher<R = any>() {
 /** Core builder for async matchers */
 export function baseAsyncMatcher<R = any>() {
   const cases: AsyncCaseRunner<R>[] = [];
-  // Optimization: lookup table for tag-based matching
-  const tagHandlers: Map<string, (e: any) => Promise<R>> = new Map();
-  let hasTagHandlers = false;
+  let sink: TraceSink | undefined;
+
+  /** Adds a case, diagnosed against the earlier ones */
+  function add(c: AsyncCaseRunner<R>) {
+    cases.push(c);
+    reportLastCase(cases);
+  }
 
   function withGuard<T>(guard: Guard<T>, handler: (e: T) => Promise<R>) {
-    cases.push({ test: guard as any, run: handler as any });
+    add({ test: guard as any, run: handler as any, kind: 'guard', label: `.with(${fnLabel(guard, 'guard')})` });
     return api;
   }
   function withCtor<T extends Error>(ctor: ErrorCtor<T>, handler: (e: T) => Promise<R>) {
-    // Optimization: if the constructor has a static tag/name, use tag-based lookup
-    const tag = (ctor as any).prototype?.tag;
-    if (tag && typeof tag === 'string') {
-      tagHandlers.set(tag, handler as any);
-      hasTagHandlers = true;
-    }
-    cases.push({ test: (e) => e instanceof ctor, run: handler as any });
+    add({
+      test: (e) => isInstanceOf(e, ctor),
+      run: handler as any,
+      ctors: [ctor],
+      exact: true,
+      kind: 'ctor',
+      label: `.with(${ctorLabel(ctor)})`,
+    });
     return api;
   }
   function withAnyCtor<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => Promise<R>) {
-    cases.push({
-      test: (e) => ctors.some(ctor => e instanceof ctor),
-      run: handler as any
+    add({
+      test: (e) => ctors.some(ctor => isInstanceOf(e, ctor)),
+      run: handler as any,
+      ctors,
+      exact: true,
+      kind: 'withAny',
+      label: `.withAny(${ctorsLabel(ctors)})`,
     });
     return api;
   }
-  function withNotCtor<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => Promise<R>) {
+  function withNotCtor<T extends Error>(ctors: ErrorCtor<T> | readonly ErrorCtor<T>[], handler: (e: any) => Promise<R>) {
     const ctorArray = Array.isArray(ctors) ? ctors : [ctors];
-    cases.push({
-      test: (e) => !ctorArray.some(ctor => e instanceof ctor),
-      run: handler as any
+    add({
+      test: (e) => !ctorArray.some(ctor => isInstanceOf(e, ctor)),
+      run: handler as any,
+      except: ctorArray,
+      kind: 'withNot',
+      label: `.withNot(${ctorsLabel(ctors)})`,
     });
     return api;
   }
@@ -139,38 +285,63 @@ export function baseAsyncMatcher<R = any>() {
     key: K,
     handler: (value: any) => Promise<R>
   ) {
-    cases.push({
-      test: (e) => e instanceof ctor,
+    add({
+      test: (e) => isInstanceOf(e, ctor),
       run: async (e: any) => {
         const value = (e as any).data?.[key];
         return handler(value);
-      }
+      },
+      ctors: [ctor],
+      exact: true,
+      kind: 'select',
+      label: `.select(${ctorLabel(ctor)}, '${key}')`,
+    });
+    return api;
+  }
+  function withMembers<A extends Error, M extends Error>(
+    agg: ErrorCtor<A>,
+    member: ErrorCtor<M>,
+    every: boolean,
+    handler: (e: A, members: M[]) => Promise<R>
+  ) {
+    add({
+      test: (e) => membersMatch(e, agg, member, every),
+      run: async (e: any) => handler(e, membersOf(e, member) as M[]),
+      ctors: [agg],
+      kind: every ? 'withEvery' : 'withSome',
+      label: `.${every ? 'withEvery' : 'withSome'}(${ctorLabel(agg)}, ${ctorLabel(member)})`,
+    });
+    return api;
+  }
+  function withPattern(ctorOrGuard: ErrorCtor<any> | Guard<any>, pattern: object, handler: (e: any) => Promise<R>) {
+    add({
+      test: (e) => patternMatch(e, ctorOrGuard, pattern),
+      run: handler,
+      ctors: isCtor(ctorOrGuard) ? [ctorOrGuard] : undefined,
+      kind: 'pattern',
+      label: `.with(${isCtor(ctorOrGuard) ? ctorLabel(ctorOrGuard) : fnLabel(ctorOrGuard, 'guard')}, pattern)`,
     });
     return api;
   }
   function when(pred: (e: any) => boolean, handler: (e: any) => Promise<R>) {
-    cases.push({ test: pred, run: handler });
+    add({ test: pred, run: handler, kind: 'when', label: `.when(${fnLabel(pred, 'predicate')})` });
+    return api;
+  }
+  function debug(trace: TraceSink = logTrace) {
+    sink = trace;
     return api;
   }
   async function otherwise(e: unknown, fallback: (e: unknown) => Promise<R>): Promise<R> {
-    // Fast path: try tag-based lookup first
-    if (hasTagHandlers && typeof e === 'object' && e !== null && 'tag' in e) {
-      const handler = tagHandlers.get((e as any).tag);
-      if (handler) return handler(e);
-    }
-    // Fallback: iterate through cases
-    for (const c of cases) if (c.test(e)) return c.run(e);
+    // The first matching case wins
+    const c = findCase(cases, e, sink);
+    if (c) return c.run(e);
     return fallback(e);
   }
   async function runExhaustive(e: unknown): Promise<R> {
-    // Fast path: try tag-based lookup first
-    if (hasTagHandlers && typeof e === 'object' && e !== null && 'tag' in e) {
-      const handler = tagHandlers.get((e as any).tag);
-      if (handler) return handler(e);
-    }
-    // Fallback: iterate through cases
-    for (const c of cases) if (c.test(e)) return c.run(e);
-    throw new Error('Non-exhaustive matchErrorOf');
+    // The first matching case wins
+    const c = findCase(cases, e, sink);
+    if (c) return c.run(e);
+    throw nonExhaustive(cases, e, 'matchErrorOf');
   }
 
   const api = {
@@ -179,10 +350,26 @@ export function baseAsyncMatcher<R = any>() {
         ? withCtor(ctorOrGuard as ErrorCtor<any>, handler as any)
         : withGuard(ctorOrGuard as Guard<any>, handler as any);
     },
+    withPattern,
     withAny: withAnyCtor,
     withNot: withNotCtor,
+    withEvery<A extends Error, M extends Error>(
+      agg: ErrorCtor<A>,
+      member: ErrorCtor<M>,
+      handler: (e: A, members: M[]) => Promise<R>
+    ) {
+      return withMembers(agg, member, true, handler);
+    },
+    withSome<A extends Error, M extends Error>(
+      agg: ErrorCtor<A>,
+      member: ErrorCtor<M>,
+      handler: (e: A, members: M[]) => Promise<R>
+    ) {
+      return withMembers(agg, member, false, handler);
+    },
     select: selectCtor,
     when,
+    debug,
     _otherwise: otherwise,
     _exhaustive: runExhaustive,
   };
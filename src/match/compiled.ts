@@ -0,0 +1,164 @@
+import type { ErrorCtor, Guard } from '../core/types';
+import { baseMatcher } from './base';
+import type { CtorsOf, ErrorData, ExhaustiveThis, HandlerInput, Next, SelectValue } from './public';
+import type { ErrorPattern, NarrowError, PatternNext } from './pattern';
+
+/**
+ * Builder of a precompiled matcher, returned by `createMatcher()`.
+ *
+ * Takes the same cases as `Matcher`, and tracks the remaining error types and
+ * the result type the same way, but ends with a function instead of a result.
+ *
+ * @template Left - The remaining unhandled error types
+ * @template R - The union of the return types of the handlers so far
+ */
+export interface MatcherBuilder<Left, R = never> {
+  /** Transforms each error before matching */
+  map(transform: (e: unknown) => unknown): MatcherBuilder<Left, R>;
+  /** Matches an error using a constructor or guard function and a pattern on its data, `message` or `code` */
+  with<C extends ErrorCtor<any> | Guard<any>, const Pat extends ErrorPattern<HandlerInput<C>>, H>(
+    ctorOrGuard: C,
+    pattern: Pat,
+    handler: (e: NarrowError<HandlerInput<C>, Pat>) => H
+  ): MatcherBuilder<PatternNext<Left, C, Pat>, R | H>;
+  /** Matches an error using a constructor or guard function */
+  with<C extends ErrorCtor<any> | Guard<any>, H>(
+    ctorOrGuard: C,
+    handler: (e: HandlerInput<C>) => H
+  ): MatcherBuilder<Next<Left, C>, R | H>;
+  /** Matches multiple error types with the same handler */
+  withAny<Cs extends ErrorCtor<any>[], H>(
+    ctors: [...Cs],
+    handler: (e: HandlerInput<Cs[number]>) => H
+  ): MatcherBuilder<Next<Left, Cs[number]>, R | H>;
+  /** Matches all errors except the specified types */
+  withNot<const Cs extends ErrorCtor<any> | readonly ErrorCtor<any>[], H>(
+    ctors: Cs,
+    handler: (e: Next<Left, CtorsOf<Cs>>) => H
+  ): MatcherBuilder<Exclude<Left, Next<Left, CtorsOf<Cs>>>, R | H>;
+  /** Matches an aggregate error whose members (at least one) are all of a type */
+  withEvery<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => H
+  ): MatcherBuilder<Left, R | H>;
+  /** Matches an aggregate error with at least one member of a type */
+  withSome<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => H
+  ): MatcherBuilder<Left, R | H>;
+  /** Matches an error and extracts a specific property from its data */
+  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string, H>(
+    ctor: C,
+    key: K,
+    handler: (value: SelectValue<C, K>) => H
+  ): MatcherBuilder<Next<Left, C>, R | H>;
+  /** Matches an error using a predicate function */
+  when<H>(pred: (e: any) => boolean, handler: (e: any) => H): MatcherBuilder<Left, R | H>;
+  /**
+   * Compiles the cases once every error type is handled.
+   *
+   * @returns A function matching an error, which throws a `NonExhaustiveMatchError` if no case matches at runtime
+   */
+  exhaustive(this: ExhaustiveThis<MatcherBuilder<Left, R>, Left>): (e: unknown) => R;
+  /**
+   * Compiles the cases with a handler for the errors they do not match.
+   *
+   * @param handler - Handler for unmatched errors
+   * @returns A function matching an error
+   */
+  otherwise<H>(handler: (e: unknown) => H): (e: unknown) => R | H;
+}
+
+/**
+ * Creates a reusable matcher, compiled once for hot paths.
+ *
+ * The chain takes the same cases as `matchErrorOf()`, but is written once and
+ * ends with a plain function. Its dispatch table is built at that point:
+ * defined errors only go through the cases that can match their class (looked
+ * up by lineage, with constructor cases taken without testing), and other
+ * values through the ordered list of cases, so matching an error builds
+ * nothing. The first matching case wins, as with `matchErrorOf()`.
+ *
+ * Cases added to the builder after `.exhaustive()` or `.otherwise()` do not
+ * change the functions already returned.
+ *
+ * @template All - The union type of all possible error types
+ * @returns A builder that tracks remaining unhandled cases
+ *
+ * @example
+ * ```typescript
+ * const toResponse = createMatcher<AppError>()
+ *   .with(ValidationError, e => ({ status: 400, body: e.data }))
+ *   .with(NetworkError, { status: 404 }, () => ({ status: 404 }))
+ *   .with(NetworkError, () => ({ status: 502 }))
+ *   .with(AuthError, () => ({ status: 401 }))
+ *   .exhaustive();
+ *
+ * app.use((err, req, res, next) => {
+ *   const { status, body } = toResponse(err);
+ *   res.status(status).json(body);
+ * });
+ * ```
+ */
+export function createMatcher<All>(): MatcherBuilder<All> {
+  const m = baseMatcher<any>();
+  const transforms: ((e: unknown) => unknown)[] = [];
+
+  /** Compiles the current cases, applying the transforms given to `.map()` first; throws without a fallback */
+  function build(fallback?: (e: unknown) => any): (e: unknown) => any {
+    const match = m._compile(fallback);
+    const steps = transforms.slice();
+    if (steps.length === 0) return match;
+    return (e) => {
+      let value = e;
+      for (let i = 0; i < steps.length; i++) value = steps[i](value);
+      return match(value);
+    };
+  }
+
+  // The types of the chain are carried by the MatcherBuilder interface
+  const builder: any = {
+    map(transform: (e: unknown) => unknown) {
+      transforms.push(transform);
+      return builder;
+    },
+    with(ctorOrGuard: any, patternOrHandler: any, handler?: any) {
+      if (handler) m.withPattern(ctorOrGuard, patternOrHandler, handler);
+      else m.with(ctorOrGuard, patternOrHandler);
+      return builder;
+    },
+    withAny(ctors: ErrorCtor<any>[], handler: (e: any) => any) {
+      m.withAny(ctors, handler);
+      return builder;
+    },
+    withNot(ctors: ErrorCtor<any> | readonly ErrorCtor<any>[], handler: (e: any) => any) {
+      m.withNot(ctors, handler);
+      return builder;
+    },
+    withEvery(agg: any, member: any, handler: any) {
+      m.withEvery(agg, member, handler);
+      return builder;
+    },
+    withSome(agg: any, member: any, handler: any) {
+      m.withSome(agg, member, handler);
+      return builder;
+    },
+    select(ctor: any, key: string, handler: (value: any) => any) {
+      m.select(ctor, key, handler);
+      return builder;
+    },
+    when(pred: any, handler: any) {
+      m.when(pred, handler);
+      return builder;
+    },
+    exhaustive() {
+      return build();
+    },
+    otherwise(handler: (e: unknown) => any) {
+      return build(handler);
+    },
+  };
+  return builder;
+}
@@ -0,0 +1,125 @@
+import type { ErrorCtor } from '../core/types';
+import { isInstanceOf, settings } from '../core/identity';
+import type { DispatchCase } from './dispatch';
+
+/**
+ * Diagnostics of matcher cases that can never run, enabled with
+ * `configure({ onMatcherDiagnostic })`.
+ *
+ * Only cases on constructors are analyzed: guards and predicates are opaque.
+ */
+
+/**
+ * A case of a matcher that earlier cases keep from running, fully or partly.
+ */
+export interface MatcherDiagnostic {
+  /**
+   * `'duplicate'` when the case repeats the constructors of an earlier one,
+   * `'unreachable'` when earlier cases take every error it could match,
+   * `'shadowed'` when they take the errors of some of its constructors.
+   */
+  kind: 'duplicate' | 'unreachable' | 'shadowed';
+  /** Position of the case in the chain, from 0 */
+  index: number;
+  /** The case, such as `.with(NetworkError)` */
+  label: string;
+  /** Position of the first earlier case taking its errors */
+  by: number;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * What to do with the diagnostics of a matcher: warn on the console (once
+ * per message), throw, ignore them, or call a custom handler.
+ */
+export type MatcherDiagnosticPolicy = 'warn' | 'throw' | 'ignore' | ((diagnostic: MatcherDiagnostic) => void);
+
+/**
+ * The parts of a matcher case used for diagnostics.
+ */
+export interface DiagnosedCase extends DispatchCase {
+  /** How the case was added, such as `.with(NetworkError)` */
+  label: string;
+  /** Constructors excluded by a `.withNot()` case, which matches every other error */
+  except?: readonly ErrorCtor<any>[];
+}
+
+/** Messages already printed by the `'warn'` policy, as one-shot matchers report the same cases on every run */
+const warned = new Set<string>();
+
+/**
+ * The label of a constructor in diagnostics and traces: its tag, or its name.
+ *
+ * @param ctor - The constructor
+ * @returns The tag of a defined error class, or the name of the constructor
+ */
+export function ctorLabel(ctor: ErrorCtor<any>): string {
+  const tag = (ctor as { tag?: unknown }).tag;
+  return typeof tag === 'string' ? tag : ctor.name;
+}
+
+/** Whether every instance of `inner` is an instance of `outer` */
+function covers(outer: ErrorCtor<any>, inner: ErrorCtor<any>): boolean {
+  return outer === inner || isInstanceOf(inner.prototype, outer);
+}
+
+/** The position of the first case before `index` taking every error of `ctor` */
+function takenBy(cases: readonly DiagnosedCase[], index: number, ctor: ErrorCtor<any>): number | undefined {
+  for (let i = 0; i < index; i++) {
+    const { ctors, exact, except } = cases[i];
+    if (exact && ctors?.some(outer => covers(outer, ctor))) return i;
+    // `.withNot()` takes the errors of a constructor unrelated to all the ones it excludes
+    if (except && !except.some(x => covers(x, ctor) || covers(ctor, x))) return i;
+  }
+  return undefined;
+}
+
+/**
+ * Finds whether earlier cases keep a case of a matcher from running.
+ *
+ * @param cases - The cases, in order
+ * @param index - Position of the case to diagnose
+ * @returns A diagnostic when the case is duplicated, unreachable or shadowed
+ */
+export function diagnoseCase(cases: readonly DiagnosedCase[], index: number): MatcherDiagnostic | undefined {
+  const c = cases[index];
+  if (!c.ctors || c.ctors.length === 0) return undefined;
+  const by = c.ctors.map(ctor => takenBy(cases, index, ctor));
+  const taken = by.filter((i): i is number => i !== undefined);
+  if (taken.length === 0) return undefined;
+
+  const first = Math.min(...taken);
+  const other = cases[first].label;
+  const kind: MatcherDiagnostic['kind'] =
+    taken.length < by.length ? 'shadowed'
+      : c.exact && c.ctors.every((ctor, i) => cases[by[i]!].ctors?.includes(ctor)) ? 'duplicate'
+        : 'unreachable';
+  const message =
+    kind === 'duplicate' ? `${c.label} (case ${index}) repeats ${other} (case ${first}) and never runs`
+      : kind === 'unreachable' ? `${c.label} (case ${index}) is unreachable: ${other} (case ${first}) matches its errors first`
+        : `${c.label} (case ${index}) is partly shadowed by ${other} (case ${first})`;
+  return { kind, index, label: c.label, by: first, message };
+}
+
+/**
+ * Applies the `onMatcherDiagnostic` policy to the last case of a matcher, as
+ * it is added: earlier cases never change, so each case is diagnosed once
+ * and matching neither pays for the analysis nor throws from it.
+ *
+ * Does nothing unless a policy other than `'ignore'` is configured.
+ *
+ * @param cases - The cases, in order, ending with the one just added
+ */
+export function reportLastCase(cases: readonly DiagnosedCase[]): void {
+  const policy = settings().onMatcherDiagnostic ?? 'ignore';
+  if (policy === 'ignore') return;
+  const diagnostic = diagnoseCase(cases, cases.length - 1);
+  if (!diagnostic) return;
+  if (typeof policy === 'function') policy(diagnostic);
+  else if (policy === 'throw') throw new TypeError(diagnostic.message);
+  else if (!warned.has(diagnostic.message)) {
+    warned.add(diagnostic.message);
+    console.warn(`[ts-typed-errors] ${diagnostic.message}`);
+  }
+}
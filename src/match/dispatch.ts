@@ -0,0 +1,120 @@
+import type { ErrorCtor } from '../core/types';
+import { classLineage, errorBrand } from '../core/identity';
+
+/**
+ * The parts of a matcher case used for dispatch.
+ */
+export interface DispatchCase {
+  /** Whether the case matches an error */
+  test: (e: unknown) => boolean;
+  /** Constructors an error must be an instance of (one of) for `test` to pass, if the case has any */
+  ctors?: readonly ErrorCtor<any>[];
+  /** Whether `test` passes for every instance of `ctors`, so that it can be skipped */
+  exact?: boolean;
+}
+
+/** A case that can match the errors of a class, and whether it surely does */
+interface Candidate<C> {
+  c: C;
+  sure: boolean;
+}
+
+/**
+ * Builds the dispatch of a list of cases, which returns the first case matching an error.
+ *
+ * Defined errors only go through the cases that can match their class: the
+ * list is computed once per class, keyed by the lineage array that every
+ * instance shares, and constructor cases in it are taken without testing.
+ * Other values go through every case, in order. Either way, the first case
+ * that matches wins, as when testing every case in order.
+ *
+ * @param cases - The cases, in order
+ * @returns A function returning the first case matching an error, or undefined
+ */
+export function dispatcher<C extends DispatchCase>(cases: readonly C[]): (e: unknown) => C | undefined {
+  const tags = cases.map(c => ctorTags(c.ctors));
+  const ordered: readonly Candidate<C>[] = cases.map(c => ({ c, sure: false }));
+  const byLineage = new WeakMap<readonly string[], readonly Candidate<C>[]>();
+
+  const candidates = (lineage: readonly string[]) => {
+    let list = byLineage.get(lineage);
+    if (!list) {
+      list = cases.flatMap((c, i) => {
+        const own = tags[i];
+        if (!own) return [{ c, sure: false }];
+        return own.some(tag => lineage.includes(tag)) ? [{ c, sure: c.exact === true }] : [];
+      });
+      byLineage.set(lineage, list);
+    }
+    return list;
+  };
+  // Classes named by the cases are known in advance
+  for (const c of cases) for (const ctor of c.ctors ?? []) {
+    const lineage = classLineage(ctor);
+    if (lineage) candidates(lineage);
+  }
+
+  return (e) => {
+    const lineage = lineageOf(e);
+    const list = lineage ? candidates(lineage) : ordered;
+    // An index loop, as array iterators are allocated when the call site is polymorphic
+    for (let i = 0; i < list.length; i++) {
+      const { c, sure } = list[i];
+      if (sure || c.test(e)) return c;
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Returns the first case matching an error, for matchers that run once.
+ *
+ * Follows the rules of `dispatcher()` without building its table: the
+ * constructor cases of defined classes are decided by comparing lineages.
+ *
+ * @param cases - The cases, in order
+ * @param e - The error to match
+ * @returns The first matching case, or undefined
+ */
+export function firstMatch<C extends DispatchCase>(cases: readonly C[], e: unknown): C | undefined {
+  const lineage = lineageOf(e);
+  for (const c of cases) {
+    const inLineage = lineage && c.ctors ? lineageIncludes(lineage, c.ctors) : undefined;
+    if (inLineage === false) continue;
+    if ((inLineage && c.exact) || c.test(e)) return c;
+  }
+  return undefined;
+}
+
+/** Whether a lineage includes the tag of one of the constructors, undefined if some are not defined classes */
+function lineageIncludes(lineage: readonly string[], ctors: readonly ErrorCtor<any>[]): boolean | undefined {
+  let found = false;
+  for (const ctor of ctors) {
+    const own = classLineage(ctor);
+    if (!own) return undefined;
+    found ||= lineage.includes(own[0]);
+  }
+  return found;
+}
+
+/** The lineage of a defined error */
+function lineageOf(value: unknown): readonly string[] | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const lineage = (value as { [errorBrand]?: unknown })[errorBrand];
+  return Array.isArray(lineage) ? lineage : undefined;
+}
+
+/**
+ * The tags of constructors that are all defined error classes, undefined otherwise.
+ * Hand-written subclasses do not count: their parent's tag does not tell their instances apart.
+ */
+function ctorTags(ctors: readonly ErrorCtor<any>[] | undefined): readonly string[] | undefined {
+  if (!ctors) return undefined;
+  const tags: string[] = [];
+  for (const ctor of ctors) {
+    const lineage = classLineage(ctor);
+    if (!lineage) return undefined;
+    tags.push(lineage[0]);
+  }
+  return tags;
+}
@@ -0,0 +1,230 @@
+import type { Guard } from '../core/types';
+import type { HandlerInput, Next } from './public';
+
+/**
+ * Object patterns for `.with(ctor, pattern, handler)`.
+ *
+ * A pattern lists fields of the error's `data` (plus `message` and `code`) with
+ * the value each must have: a literal compared with `===`, a nested object
+ * pattern, or a `P` helper such as `P.gte(500)`.
+ */
+
+declare const narrowedType: unique symbol;
+declare const exactType: unique symbol;
+
+/**
+ * A pattern helper created by `P`.
+ *
+ * @template Narrowed - The type of the values it matches
+ * @template Exact - Whether it matches every value of that type, which lets it count toward exhaustiveness
+ */
+export interface PatternMatcher<Narrowed = unknown, Exact extends boolean = false> {
+  /** Tests a value against the pattern */
+  test(value: unknown): boolean;
+  /** Type-level only */
+  readonly [narrowedType]?: Narrowed;
+  /** Type-level only */
+  readonly [exactType]?: Exact;
+}
+
+/** Values compared with `===` */
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+/**
+ * The pattern of a value of type `T`: a literal, a nested object pattern or a `P` helper.
+ *
+ * @template T - The type of the matched value
+ */
+export type Pattern<T> =
+  | PatternMatcher<any, boolean>
+  | (T extends Primitive ? T : never)
+  | (T extends object ? { readonly [K in keyof T]?: Pattern<T[K]> } : never);
+
+/** The data of an error type */
+type DataOf<E> = E extends { readonly data: infer D } ? D : {};
+
+/** The properties of the error itself that patterns may name, unless its data has a field of that name */
+type ErrorKeys<E> = Exclude<'message' | 'code', keyof DataOf<E>>;
+
+/**
+ * The pattern of an error: patterns for fields of its data, `message` and `code`.
+ *
+ * @template E - The error type
+ */
+export type ErrorPattern<E> = {
+  readonly [K in keyof DataOf<E>]?: Pattern<DataOf<E>[K]>;
+} & {
+  readonly [K in ErrorKeys<E>]?: Pattern<K extends keyof E ? E[K] : string>;
+};
+
+/** The values of type `T` matched by the pattern `P` */
+type Refine<T, P> = P extends PatternMatcher<infer N, boolean>
+  ? Intersect<T, N>
+  : P extends Primitive
+    ? Intersect<T, P>
+    : P extends object
+      ? T extends object ? T & { readonly [K in keyof P & keyof T]: Refine<T[K], P[K]> } : T
+      : T;
+
+/** The members of `T` assignable to `N`, or their intersection when none is (`number` and `404`) */
+type Intersect<T, N> = [Extract<T, N>] extends [never] ? T & N : Extract<T, N>;
+
+/**
+ * The type of an error matched by a pattern, as given to its handler.
+ *
+ * @template E - The error type
+ * @template Pat - The pattern
+ *
+ * @example
+ * ```typescript
+ * // NarrowError<AuthError, { reason: 'expired' }>['data']['reason'] is 'expired'
+ * ```
+ */
+export type NarrowError<E, Pat> = E & { readonly data: Refine<DataOf<E>, Pat> } & {
+  readonly [K in keyof Pat & ErrorKeys<E>]: Refine<K extends keyof E ? E[K] : unknown, Pat[K]>;
+};
+
+/** The values a pattern matches all of, `never` when it may reject some values of its type */
+type CoveredValues<P> = P extends PatternMatcher<infer N, true> ? N : P extends Primitive ? P : never;
+
+/** Whether `K` is a single type rather than a union */
+type IsSingle<K, All = K> = K extends unknown ? ([Exclude<All, K>] extends [never] ? true : false) : never;
+
+/** `M` with the values of its data field `K` matched by `V` removed, `never` when none is left */
+type WithoutValues<M, K extends keyof DataOf<M>, V> = [Exclude<DataOf<M>[K], V>] extends [never]
+  ? never
+  : [DataOf<M>[K]] extends [Exclude<DataOf<M>[K], V>]
+    ? M
+    : M & { readonly data: { readonly [F in K]: Exclude<DataOf<M>[K], V> } };
+
+/**
+ * The part of an error type a pattern does not match.
+ *
+ * Only the empty pattern and patterns on a single data field are tracked: a
+ * literal, `P.oneOf()` or a type helper such as `P.string` removes the values it
+ * matches from that field, and the error is handled once no value is left.
+ */
+type Uncovered<M, Pat> = [keyof Pat] extends [never]
+  ? never
+  : IsSingle<keyof Pat> extends true
+    ? keyof Pat extends infer K extends keyof DataOf<M> & keyof Pat
+      ? WithoutValues<M, K, CoveredValues<Pat[K]>>
+      : M
+    : M;
+
+/**
+ * Helper type computing the error cases left after `.with(ctor, pattern, handler)`.
+ *
+ * Errors handled by `ctor` stay in the union unless the pattern matches all of
+ * them, possibly narrowed to the values of a literal-union field not matched yet.
+ *
+ * @template Left - The union of the unhandled error types
+ * @template C - The error constructor or guard
+ * @template Pat - The pattern
+ */
+export type PatternNext<Left, C, Pat> = Left extends unknown
+  ? [Next<Left, C>] extends [never] ? Uncovered<Left, Pat> : Left
+  : never;
+
+/** Every pattern helper created by `P` */
+const patternMatchers = new WeakSet<object>();
+
+/** Creates a pattern helper */
+function matcher<N, Exact extends boolean = false>(test: (value: unknown) => boolean): PatternMatcher<N, Exact> {
+  const m: PatternMatcher<N, Exact> = { test };
+  patternMatchers.add(m);
+  return m;
+}
+
+/** `P.when()`, whose type guard overload narrows the matched values */
+function when<T>(guard: Guard<T>): PatternMatcher<T>;
+function when(pred: (value: any) => boolean): PatternMatcher<unknown>;
+function when(pred: (value: any) => boolean): PatternMatcher<unknown> {
+  return matcher(value => pred(value));
+}
+
+/**
+ * Pattern helpers for `.with(ctor, pattern, handler)`.
+ *
+ * @example
+ * ```typescript
+ * matchErrorOf<AppError>(error)
+ *   .with(NetworkError, { status: 404 }, () => 'not found')
+ *   .with(NetworkError, { status: P.gte(500) }, e => `upstream failed: ${e.data.url}`)
+ *   .with(NetworkError, { url: P.regex(/^\/admin/) }, () => 'admin api')
+ *   .with(AuthError, { reason: P.oneOf('expired', 'revoked') }, e => refresh(e.data.reason))
+ *   .otherwise(() => 'unexpected');
+ * ```
+ */
+export const P = {
+  /** Matches any value, including undefined */
+  any: matcher<unknown, true>(() => true),
+  /** Matches strings */
+  string: matcher<string, true>(value => typeof value === 'string'),
+  /** Matches numbers */
+  number: matcher<number, true>(value => typeof value === 'number'),
+  /** Matches booleans */
+  boolean: matcher<boolean, true>(value => typeof value === 'boolean'),
+  /** Matches null and undefined */
+  nullish: matcher<null | undefined, true>(value => value === null || value === undefined),
+
+  /** Matches numbers greater than `n` */
+  gt: (n: number) => matcher<number>(value => typeof value === 'number' && value > n),
+  /** Matches numbers greater than or equal to `n` */
+  gte: (n: number) => matcher<number>(value => typeof value === 'number' && value >= n),
+  /** Matches numbers less than `n` */
+  lt: (n: number) => matcher<number>(value => typeof value === 'number' && value < n),
+  /** Matches numbers less than or equal to `n` */
+  lte: (n: number) => matcher<number>(value => typeof value === 'number' && value <= n),
+
+  /** Matches any of the given values, compared with `===` */
+  oneOf<const V extends readonly Primitive[]>(...values: V): PatternMatcher<V[number], true> {
+    return matcher<V[number], true>(value => values.some(v => v === value));
+  },
+
+  /** Matches strings in which the regular expression finds a match */
+  regex: (re: RegExp) => matcher<string>(value => typeof value === 'string' && value.search(re) !== -1),
+
+  /** Matches values the given pattern does not match */
+  not: (pattern: unknown) => matcher<unknown>(value => !matchesPattern(value, pattern)),
+
+  /** Matches values accepted by a predicate, narrowing to the type of a type guard */
+  when,
+};
+
+/**
+ * Tests a value against a pattern.
+ *
+ * @param value - The value to test
+ * @param pattern - A literal, an object pattern or a `P` helper
+ * @returns Whether the value matches
+ */
+export function matchesPattern(value: unknown, pattern: unknown): boolean {
+  if (typeof pattern !== 'object' || pattern === null) return value === pattern;
+  if (patternMatchers.has(pattern)) return (pattern as PatternMatcher).test(value);
+  if (typeof value !== 'object' || value === null) return false;
+  return Object.keys(pattern).every(key =>
+    matchesPattern((value as Record<string, unknown>)[key], (pattern as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Tests an error against an error pattern.
+ *
+ * `message` and `code` are read from the error itself unless its data has a
+ * field of that name; every other key is read from `data`.
+ *
+ * @param e - The error to test
+ * @param pattern - The error pattern
+ * @returns Whether every field of the pattern matches
+ */
+export function matchesErrorPattern(e: unknown, pattern: object): boolean {
+  if (typeof e !== 'object' || e === null) return false;
+  const { data } = e as { data?: unknown };
+  const fields = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  return Object.keys(pattern).every(key => {
+    const own = (key === 'message' || key === 'code') && !(key in fields);
+    const value = own ? (e as Record<string, unknown>)[key] : fields[key];
+    return matchesPattern(value, (pattern as Record<string, unknown>)[key]);
+  });
+}
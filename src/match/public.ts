@@ -1,51 +1,59 @@
 import type { ErrorCtor, Guard } from '../core/types';
+import type { ErrorOf, ErrorRegistry } from '../errors/defineErrors';
 import { baseMatcher, baseAsyncMatcher } from './base';
+import type { ErrorPattern, NarrowError, PatternNext } from './pattern';
+import type { MatchTrace } from './trace';
 
 /**
  * Creates a free-form error matcher that allows pattern matching on errors.
- * 
+ *
  * This function provides a fluent API for handling different error types with type safety.
  * The matcher must end with a call to `otherwise()` to handle unmatched cases.
- * 
+ *
  * @param e - The error to match against
  * @returns A matcher object with methods for pattern matching
- * 
+ *
  * @example
  * ```typescript
  * const result = matchError(error)
  *   .with(ValidationError, (err) => `Validation failed: ${err.message}`)
  *   .with(NetworkError, (err) => `Network error: ${err.code}`)
  *   .when(err => err.message.includes('timeout'), (err) => 'Request timed out')
- *   .otherwise((err) => `Unknown error: ${err}`);
+ *   .otherwise((err) => `Unknown error: ${err}`); // string
  * ```
  */
-export function matchError(e: unknown) {
+export function matchError(e: unknown): FreeMatcher {
   const m = baseMatcher();
   let transformedError = e;
 
-  function createChain() {
+  function createChain(): FreeMatcher<any> {
     return {
       map(transform: (e: unknown) => unknown) {
         transformedError = transform(transformedError);
         return createChain();
       },
-      with<T>(ctorOrGuard: ErrorCtor<any> | Guard<any>, handler: (e: HandlerInput<T>) => any) {
-        m.with(ctorOrGuard, handler);
+      with(ctorOrGuard: any, patternOrHandler: any, handler?: any) {
+        if (handler) m.withPattern(ctorOrGuard, patternOrHandler, handler);
+        else m.with(ctorOrGuard, patternOrHandler);
         return createChain();
       },
-      withAny<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => any) {
+      withAny(ctors: ErrorCtor<any>[], handler: (e: any) => any) {
         m.withAny(ctors, handler);
         return createChain();
       },
-      withNot<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => any) {
+      withNot(ctors: ErrorCtor<any> | readonly ErrorCtor<any>[], handler: (e: any) => any) {
         m.withNot(ctors, handler);
         return createChain();
       },
-      select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string>(
-        ctor: C,
-        key: K,
-        handler: (value: SelectValue<C, K>) => any
-      ) {
+      withEvery(agg: any, member: any, handler: any) {
+        m.withEvery(agg, member, handler);
+        return createChain();
+      },
+      withSome(agg: any, member: any, handler: any) {
+        m.withSome(agg, member, handler);
+        return createChain();
+      },
+      select(ctor: any, key: string, handler: (value: any) => any) {
         m.select(ctor, key, handler);
         return createChain();
       },
@@ -53,7 +61,11 @@ export function matchError(e: unknown) {
         m.when(pred, handler);
         return createChain();
       },
-      otherwise<R>(handler: (e: unknown) => R) {
+      debug(sink?: (trace: MatchTrace) => void) {
+        m.debug(sink);
+        return createChain();
+      },
+      otherwise(handler: (e: unknown) => any) {
         return m._otherwise(transformedError, handler);
       },
     };
@@ -62,6 +74,52 @@ export function matchError(e: unknown) {
   return createChain();
 }
 
+/**
+ * Chain interface of the free-form matcher returned by `matchError()`.
+ *
+ * @template R - The union of the return types of the handlers so far
+ */
+export interface FreeMatcher<R = never> {
+  /** Transforms the error before matching */
+  map(transform: (e: unknown) => unknown): FreeMatcher<R>;
+  /** Matches an error using a constructor or guard function and a pattern on its data, `message` or `code` */
+  with<C extends ErrorCtor<any> | Guard<any>, const Pat extends ErrorPattern<HandlerInput<C>>, H>(
+    ctorOrGuard: C,
+    pattern: Pat,
+    handler: (e: NarrowError<HandlerInput<C>, Pat>) => H
+  ): FreeMatcher<R | H>;
+  /** Matches an error using a constructor or guard function */
+  with<C extends ErrorCtor<any> | Guard<any>, H>(ctorOrGuard: C, handler: (e: HandlerInput<C>) => H): FreeMatcher<R | H>;
+  /** Matches multiple error types with the same handler */
+  withAny<Cs extends ErrorCtor<any>[], H>(ctors: [...Cs], handler: (e: HandlerInput<Cs[number]>) => H): FreeMatcher<R | H>;
+  /** Matches all errors except the specified types */
+  withNot<const Cs extends ErrorCtor<any> | readonly ErrorCtor<any>[], H>(ctors: Cs, handler: (e: unknown) => H): FreeMatcher<R | H>;
+  /** Matches an aggregate error whose members (at least one) are all of a type */
+  withEvery<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => H
+  ): FreeMatcher<R | H>;
+  /** Matches an aggregate error with at least one member of a type */
+  withSome<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => H
+  ): FreeMatcher<R | H>;
+  /** Matches an error and extracts a specific property from its data */
+  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string, H>(
+    ctor: C,
+    key: K,
+    handler: (value: SelectValue<C, K>) => H
+  ): FreeMatcher<R | H>;
+  /** Matches an error using a predicate function */
+  when<H>(pred: (e: any) => boolean, handler: (e: any) => H): FreeMatcher<R | H>;
+  /** Records which cases are tested and their outcome, for a sink or `console.debug` */
+  debug(sink?: (trace: MatchTrace) => void): FreeMatcher<R>;
+  /** Handles any remaining unmatched cases and returns the result of the matching handler */
+  otherwise<H>(handler: (e: unknown) => H): R | H;
+}
+
 /**
  * Infers the input type of a handler constraint.
  *
@@ -108,6 +166,34 @@ export type ErrorData<T> = T extends ErrorCtor<infer E>
  */
 export type SelectValue<T, K extends string> = ErrorData<T> extends Record<K, infer V> ? V : unknown;
 
+/**
+ * The `this` type of `.exhaustive()`: the matcher itself once every case is
+ * handled, otherwise a message naming the unhandled errors, which TypeScript
+ * prints in the compile error.
+ *
+ * @template Self - The matcher
+ * @template Left - The remaining unhandled error types
+ *
+ * @example
+ * ```typescript
+ * matchErrorOf<NetworkError | ParseError>(e).with(NetworkError, () => 1).exhaustive();
+ * // The 'this' context of type 'Matcher<ParseError, number>' is not assignable
+ * // to method's 'this' of type '"unhandled: ParseError"'.
+ * ```
+ */
+export type ExhaustiveThis<Self, Left> = 0 extends 1 & Left
+  ? Self
+  : [Left] extends [never]
+    ? Self
+    : `unhandled: ${UnhandledName<Left>}`;
+
+/** The tag of an unhandled error, or a description of it when it has none */
+type UnhandledName<Left> = Left extends { readonly tag: infer Tag extends string }
+  ? Tag
+  : Left extends Error
+    ? 'errors without tag'
+    : 'unknown values';
+
 /**
  * Chain interface for exhaustive error matching with compile-time exhaustiveness checking.
  *
@@ -115,15 +201,35 @@ export type SelectValue<T, K extends string> = ErrorData<T> extends Record<K, in
  * that all possible error cases are handled at compile time.
  *
  * @template Left - The remaining unhandled error types
+ * @template R - The union of the return types of the handlers so far
  */
-export interface Matcher<Left> {
+export interface Matcher<Left, R = never> {
   /**
    * Transforms the error before matching.
    *
    * @param transform - Function to transform the error
    * @returns The same matcher with the transformed error
    */
-  map(transform: (e: unknown) => unknown): any;
+  map(transform: (e: unknown) => unknown): Matcher<Left, R>;
+
+  /**
+   * Matches an error using a constructor or guard function and a pattern on
+   * its data, `message` or `code`.
+   *
+   * The error stays among the remaining types unless the pattern matches all of
+   * it: the empty pattern, or patterns on one literal-union field that together
+   * cover every value of that field.
+   *
+   * @param ctorOrGuard - Error constructor or type guard function
+   * @param pattern - Values of the data fields, `message` or `code`: literals, object patterns or `P` helpers
+   * @param handler - Handler function that receives the matched error, narrowed by the pattern
+   * @returns A new matcher with the remaining unhandled types
+   */
+  with<C extends ErrorCtor<any> | Guard<any>, const Pat extends ErrorPattern<HandlerInput<C>>, H>(
+    ctorOrGuard: C,
+    pattern: Pat,
+    handler: (e: NarrowError<HandlerInput<C>, Pat>) => H
+  ): Matcher<PatternNext<Left, C, Pat>, R | H>;
 
   /**
    * Matches an error using a constructor or guard function.
@@ -132,7 +238,7 @@ export interface Matcher<Left> {
    * @param handler - Handler function that receives the matched error
    * @returns A new matcher with the remaining unhandled types
    */
-  with<T>(ctorOrGuard: ErrorCtor<any> | Guard<any>, handler: (e: HandlerInput<T>) => any): any;
+  with<C extends ErrorCtor<any> | Guard<any>, H>(ctorOrGuard: C, handler: (e: HandlerInput<C>) => H): Matcher<Next<Left, C>, R | H>;
 
   /**
    * Matches multiple error types with the same handler.
@@ -141,16 +247,52 @@ export interface Matcher<Left> {
    * @param handler - Handler function that receives the matched error
    * @returns A new matcher with the remaining unhandled types
    */
-  withAny<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => any): any;
+  withAny<Cs extends ErrorCtor<any>[], H>(
+    ctors: [...Cs],
+    handler: (e: HandlerInput<Cs[number]>) => H
+  ): Matcher<Next<Left, Cs[number]>, R | H>;
 
   /**
    * Matches all errors except the specified types.
    *
    * @param ctors - Error constructor or array of constructors to exclude
    * @param handler - Handler function for non-matching errors
+   * @returns A new matcher left with the excluded types
+   */
+  withNot<const Cs extends ErrorCtor<any> | readonly ErrorCtor<any>[], H>(
+    ctors: Cs,
+    handler: (e: Next<Left, CtorsOf<Cs>>) => H
+  ): Matcher<Exclude<Left, Next<Left, CtorsOf<Cs>>>, R | H>;
+
+  /**
+   * Matches an aggregate error whose members (at least one) are all of a type.
+   *
+   * Works with `defineAggregateError` classes, `CollectedError` and native `AggregateError`.
+   *
+   * @param agg - Aggregate error constructor to match
+   * @param member - Error constructor every member must be an instance of
+   * @param handler - Handler function that receives the aggregate and its members
    * @returns A new matcher with the same remaining types
    */
-  withNot<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => any): any;
+  withEvery<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => H
+  ): Matcher<Left, R | H>;
+
+  /**
+   * Matches an aggregate error with at least one member of a type.
+   *
+   * @param agg - Aggregate error constructor to match
+   * @param member - Error constructor to look for among the members
+   * @param handler - Handler function that receives the aggregate and its matching members
+   * @returns A new matcher with the same remaining types
+   */
+  withSome<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => H
+  ): Matcher<Left, R | H>;
 
   /**
    * Matches an error and extracts a specific property from its data.
@@ -160,11 +302,11 @@ export interface Matcher<Left> {
    * @param handler - Handler function that receives only the extracted property value
    * @returns A new matcher with the remaining unhandled types
    */
-  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string>(
+  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string, H>(
     ctor: C,
     key: K,
-    handler: (value: SelectValue<C, K>) => any
-  ): any;
+    handler: (value: SelectValue<C, K>) => H
+  ): Matcher<Next<Left, C>, R | H>;
 
   /**
    * Matches an error using a predicate function.
@@ -173,50 +315,96 @@ export interface Matcher<Left> {
    * @param handler - Handler function for matching errors
    * @returns A new matcher with the same remaining types
    */
-  when(pred: (e: any) => boolean, handler: (e: any) => any): any;
+  when<H>(pred: (e: any) => boolean, handler: (e: any) => H): Matcher<Left, R | H>;
+
+  /**
+   * Records the cases tested against the error, in order, with the outcome of each.
+   *
+   * @param sink - Receives the trace when the chain ends (default: prints it with `console.debug`)
+   * @returns The same matcher
+   *
+   * @example
+   * ```typescript
+   * matchErrorOf<AppError>(error)
+   *   .debug(trace => logger.debug(formatTrace(trace)))
+   *   .with(NetworkError, () => 'network')
+   *   .otherwise(() => 'other');
+   * ```
+   */
+  debug(sink?: (trace: MatchTrace) => void): Matcher<Left, R>;
 
   /**
    * Completes the matching when all cases are handled.
-   * Only callable when Left is never (all cases handled).
+   * Only callable when Left is never (all cases handled); otherwise the compile
+   * error names the unhandled errors.
+   *
+   * @returns The result of the matching handler
+   * @throws NonExhaustiveMatchError when no case matches at runtime, with the trace of the cases tested
    */
-  exhaustive(this: Matcher<never>): any;
+  exhaustive(this: ExhaustiveThis<Matcher<Left, R>, Left>): R;
 
   /**
    * Handles any remaining unmatched cases.
    *
    * @param handler - Handler for unmatched errors
-   * @returns The result of the handler
+   * @returns The result of the matching handler
    */
-  otherwise<R>(handler: (e: unknown) => R): R;
+  otherwise<H>(handler: (e: unknown) => H): R | H;
 }
 
+/**
+ * Helper type computing the members of `Left` that descend from `Handled`.
+ *
+ * Errors created with `.extend()` carry the tags of their ancestors in `lineage`,
+ * so handling a parent error also covers all of its children.
+ *
+ * @template Left - The union of all possible error types
+ * @template Handled - The error type that was just handled
+ */
+export type Descendants<Left, Handled> =
+  Left extends { readonly lineage: readonly (infer L)[] }
+    ? Handled extends { readonly tag: infer Tag }
+      ? Tag extends L ? Left : never
+      : never
+    : never;
+
 /**
  * Helper type computing remaining (unhandled) error cases.
- * 
- * This utility type removes the handled error type from the union of all possible errors,
- * helping TypeScript track which cases still need to be handled.
- * 
+ *
+ * This utility type removes the handled error type (and any error extended from it)
+ * from the union of all possible errors, helping TypeScript track which cases
+ * still need to be handled.
+ *
  * @template Left - The union of all possible error types
  * @template T - The error constructor or guard that was just handled
  * @returns The remaining unhandled error types
  */
-export type Next<Left, T> = Exclude<Left, HandlerInput<T>>;
+export type Next<Left, T> = Exclude<Left, HandlerInput<T> | Descendants<Left, HandlerInput<T>>>;
+
+/** The constructors given to `.withNot()`, alone or in an array */
+export type CtorsOf<Cs> = Cs extends readonly (infer C)[] ? C : Cs;
 
 /**
  * Creates an exhaustive error matcher with compile-time exhaustiveness checking.
- * 
+ *
  * This function provides type-safe pattern matching where TypeScript ensures
  * all possible error cases are handled. Use `.exhaustive()` when all cases are covered,
- * or `.otherwise()` for a fallback handler.
- * 
+ * or `.otherwise()` for a fallback handler. Both return the union of the
+ * return types of the handlers.
+ *
+ * The error union can be passed explicitly, inferred from a typed error such as
+ * the error channel of a `wrap(fn, { errors })` Result, or taken from a
+ * `defineErrors` registry given as second argument.
+ *
  * @template All - The union type of all possible error types
  * @param e - The error to match against
+ * @param registry - Optional `defineErrors` registry whose errors form the union
  * @returns A matcher that tracks remaining unhandled cases
- * 
+ *
  * @example
  * ```typescript
  * type AppError = ValidationError | NetworkError | AuthError;
- * 
+ *
  * const result = matchErrorOf<AppError>(error)
  *   .with(ValidationError, (err) => handleValidation(err))
  *   .with(NetworkError, (err) => handleNetwork(err))
@@ -224,52 +412,62 @@ export type Next<Left, T> = Exclude<Left, HandlerInput<T>>;
  *   .exhaustive(); // TypeScript ensures all cases are handled
  * ```
  */
-export function matchErrorOf<All>(e: unknown): Matcher<All> {
+export function matchErrorOf<R extends ErrorRegistry>(e: unknown, registry: R): Matcher<ErrorOf<R>>;
+export function matchErrorOf<All>(e: All): Matcher<All>;
+export function matchErrorOf<All>(e: unknown): Matcher<All>;
+export function matchErrorOf<All>(e: unknown, _registry?: ErrorRegistry): Matcher<All> {
   const m = baseMatcher<any>();
   let transformedError = e;
 
-  function api<L>(): Matcher<L> {
+  // The types of the chain are carried by the Matcher interface
+  function api(): any {
     return {
       map(transform: (e: unknown) => unknown) {
         transformedError = transform(transformedError);
-        return api<L>();
+        return api();
       },
-      with<T>(ctorOrGuard: any, handler: any) {
-        m.with(ctorOrGuard, handler);
-        return api<Next<L, T>>();
+      with(ctorOrGuard: any, patternOrHandler: any, handler?: any) {
+        if (handler) m.withPattern(ctorOrGuard, patternOrHandler, handler);
+        else m.with(ctorOrGuard, patternOrHandler);
+        return api();
       },
-      withAny<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => any) {
+      withAny(ctors: ErrorCtor<any>[], handler: (e: any) => any) {
         m.withAny(ctors, handler);
-        // For withAny, we need to remove all matched types from the union
-        type Remaining = Exclude<L, InstanceType<typeof ctors[number]>>;
-        return api<Remaining>();
+        return api();
       },
-      withNot<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => any) {
+      withNot(ctors: ErrorCtor<any> | readonly ErrorCtor<any>[], handler: (e: any) => any) {
         m.withNot(ctors, handler);
-        // withNot doesn't remove types from the union since it matches everything else
-        return api<L>();
-      },
-      select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string>(
-        ctor: C,
-        key: K,
-        handler: (value: SelectValue<C, K>) => any
-      ) {
+        return api();
+      },
+      withEvery(agg: any, member: any, handler: any) {
+        m.withEvery(agg, member, handler);
+        return api();
+      },
+      withSome(agg: any, member: any, handler: any) {
+        m.withSome(agg, member, handler);
+        return api();
+      },
+      select(ctor: any, key: string, handler: (value: any) => any) {
         m.select(ctor, key, handler);
-        return api<Next<L, HandlerInput<C>>>();
+        return api();
       },
       when(pred: any, handler: any) {
         m.when(pred, handler);
-        return api<L>();
+        return api();
       },
-      exhaustive(this: Matcher<never>) {
+      debug(sink?: (trace: MatchTrace) => void) {
+        m.debug(sink);
+        return api();
+      },
+      exhaustive() {
         return m._exhaustive(transformedError);
       },
-      otherwise<R>(handler: (e: unknown) => R) {
+      otherwise(handler: (e: unknown) => any) {
         return m._otherwise(transformedError, handler);
       },
     };
   }
-  return api<All>();
+  return api();
 }
 
 /**
@@ -295,33 +493,38 @@ export function matchErrorOf<All>(e: unknown): Matcher<All> {
  *   .otherwise(async (err) => `Unknown error: ${err}`);
  * ```
  */
-export function matchErrorAsync(e: unknown) {
+export function matchErrorAsync(e: unknown): AsyncFreeMatcher {
   const m = baseAsyncMatcher();
   let transformedError = e;
 
-  function createChain() {
+  function createChain(): AsyncFreeMatcher<any> {
     return {
       map(transform: (e: unknown) => unknown) {
         transformedError = transform(transformedError);
         return createChain();
       },
-      with<T>(ctorOrGuard: ErrorCtor<any> | Guard<any>, handler: (e: HandlerInput<T>) => Promise<any>) {
-        m.with(ctorOrGuard, handler);
+      with(ctorOrGuard: any, patternOrHandler: any, handler?: any) {
+        if (handler) m.withPattern(ctorOrGuard, patternOrHandler, handler);
+        else m.with(ctorOrGuard, patternOrHandler);
         return createChain();
       },
-      withAny<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => Promise<any>) {
+      withAny(ctors: ErrorCtor<any>[], handler: (e: any) => Promise<any>) {
         m.withAny(ctors, handler);
         return createChain();
       },
-      withNot<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => Promise<any>) {
+      withNot(ctors: ErrorCtor<any> | readonly ErrorCtor<any>[], handler: (e: any) => Promise<any>) {
         m.withNot(ctors, handler);
         return createChain();
       },
-      select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string>(
-        ctor: C,
-        key: K,
-        handler: (value: SelectValue<C, K>) => Promise<any>
-      ) {
+      withEvery(agg: any, member: any, handler: any) {
+        m.withEvery(agg, member, handler);
+        return createChain();
+      },
+      withSome(agg: any, member: any, handler: any) {
+        m.withSome(agg, member, handler);
+        return createChain();
+      },
+      select(ctor: any, key: string, handler: (value: any) => Promise<any>) {
         m.select(ctor, key, handler);
         return createChain();
       },
@@ -329,7 +532,11 @@ export function matchErrorAsync(e: unknown) {
         m.when(pred, handler);
         return createChain();
       },
-      otherwise<R>(handler: (e: unknown) => Promise<R>) {
+      debug(sink?: (trace: MatchTrace) => void) {
+        m.debug(sink);
+        return createChain();
+      },
+      otherwise(handler: (e: unknown) => Promise<any>) {
         return m._otherwise(transformedError, handler);
       },
     };
@@ -338,6 +545,61 @@ export function matchErrorAsync(e: unknown) {
   return createChain();
 }
 
+/**
+ * Chain interface of the free-form matcher returned by `matchErrorAsync()`.
+ *
+ * @template R - The union of the values the handlers so far resolve to
+ */
+export interface AsyncFreeMatcher<R = never> {
+  /** Transforms the error before matching */
+  map(transform: (e: unknown) => unknown): AsyncFreeMatcher<R>;
+  /** Matches an error using a constructor or guard function and a pattern on its data, `message` or `code` */
+  with<C extends ErrorCtor<any> | Guard<any>, const Pat extends ErrorPattern<HandlerInput<C>>, H>(
+    ctorOrGuard: C,
+    pattern: Pat,
+    handler: (e: NarrowError<HandlerInput<C>, Pat>) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches an error using a constructor or guard function */
+  with<C extends ErrorCtor<any> | Guard<any>, H>(
+    ctorOrGuard: C,
+    handler: (e: HandlerInput<C>) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches multiple error types with the same handler */
+  withAny<Cs extends ErrorCtor<any>[], H>(
+    ctors: [...Cs],
+    handler: (e: HandlerInput<Cs[number]>) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches all errors except the specified types */
+  withNot<const Cs extends ErrorCtor<any> | readonly ErrorCtor<any>[], H>(
+    ctors: Cs,
+    handler: (e: unknown) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches an aggregate error whose members (at least one) are all of a type */
+  withEvery<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches an aggregate error with at least one member of a type */
+  withSome<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches an error and extracts a specific property from its data */
+  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string, H>(
+    ctor: C,
+    key: K,
+    handler: (value: SelectValue<C, K>) => Promise<H>
+  ): AsyncFreeMatcher<R | H>;
+  /** Matches an error using a predicate function */
+  when<H>(pred: (e: any) => boolean, handler: (e: any) => Promise<H>): AsyncFreeMatcher<R | H>;
+  /** Records which cases are tested and their outcome, for a sink or `console.debug` */
+  debug(sink?: (trace: MatchTrace) => void): AsyncFreeMatcher<R>;
+  /** Handles any remaining unmatched cases and resolves to the result of the matching handler */
+  otherwise<H>(handler: (e: unknown) => Promise<H>): Promise<R | H>;
+}
+
 /**
  * Creates an exhaustive async error matcher with compile-time exhaustiveness checking.
  *
@@ -345,6 +607,7 @@ export function matchErrorAsync(e: unknown) {
  *
  * @template All - The union type of all possible error types
  * @param e - The error to match against
+ * @param registry - Optional `defineErrors` registry whose errors form the union
  * @returns An async matcher that tracks remaining unhandled cases
  *
  * @example
@@ -367,68 +630,106 @@ export function matchErrorAsync(e: unknown) {
  *   .exhaustive(); // TypeScript ensures all cases are handled
  * ```
  */
-export function matchErrorOfAsync<All>(e: unknown): AsyncMatcher<All> {
+export function matchErrorOfAsync<R extends ErrorRegistry>(e: unknown, registry: R): AsyncMatcher<ErrorOf<R>>;
+export function matchErrorOfAsync<All>(e: All): AsyncMatcher<All>;
+export function matchErrorOfAsync<All>(e: unknown): AsyncMatcher<All>;
+export function matchErrorOfAsync<All>(e: unknown, _registry?: ErrorRegistry): AsyncMatcher<All> {
   const m = baseAsyncMatcher<any>();
   let transformedError = e;
 
-  function api<L>(): AsyncMatcher<L> {
+  // The types of the chain are carried by the AsyncMatcher interface
+  function api(): any {
     return {
       map(transform: (e: unknown) => unknown) {
         transformedError = transform(transformedError);
-        return api<L>();
+        return api();
       },
-      with<T>(ctorOrGuard: any, handler: any) {
-        m.with(ctorOrGuard, handler);
-        return api<Next<L, T>>();
+      with(ctorOrGuard: any, patternOrHandler: any, handler?: any) {
+        if (handler) m.withPattern(ctorOrGuard, patternOrHandler, handler);
+        else m.with(ctorOrGuard, patternOrHandler);
+        return api();
       },
-      withAny<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => Promise<any>) {
+      withAny(ctors: ErrorCtor<any>[], handler: (e: any) => Promise<any>) {
         m.withAny(ctors, handler);
-        type Remaining = Exclude<L, InstanceType<typeof ctors[number]>>;
-        return api<Remaining>();
+        return api();
       },
-      withNot<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => Promise<any>) {
+      withNot(ctors: ErrorCtor<any> | readonly ErrorCtor<any>[], handler: (e: any) => Promise<any>) {
         m.withNot(ctors, handler);
-        return api<L>();
+        return api();
+      },
+      withEvery(agg: any, member: any, handler: any) {
+        m.withEvery(agg, member, handler);
+        return api();
       },
-      select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string>(
-        ctor: C,
-        key: K,
-        handler: (value: SelectValue<C, K>) => Promise<any>
-      ) {
+      withSome(agg: any, member: any, handler: any) {
+        m.withSome(agg, member, handler);
+        return api();
+      },
+      select(ctor: any, key: string, handler: (value: any) => Promise<any>) {
         m.select(ctor, key, handler);
-        return api<Next<L, HandlerInput<C>>>();
+        return api();
       },
       when(pred: any, handler: any) {
         m.when(pred, handler);
-        return api<L>();
+        return api();
+      },
+      debug(sink?: (trace: MatchTrace) => void) {
+        m.debug(sink);
+        return api();
       },
-      exhaustive(this: AsyncMatcher<never>) {
+      exhaustive() {
         return m._exhaustive(transformedError);
       },
-      otherwise<R>(handler: (e: unknown) => Promise<R>) {
+      otherwise(handler: (e: unknown) => Promise<any>) {
         return m._otherwise(transformedError, handler);
       },
     };
   }
-  return api<All>();
+  return api();
 }
 
 /**
  * Async matcher interface with compile-time exhaustiveness checking.
  *
  * @template Left - The remaining unhandled error types
+ * @template R - The union of the values the handlers so far resolve to
  */
-export interface AsyncMatcher<Left> {
-  map(transform: (e: unknown) => unknown): any;
-  with<T>(ctorOrGuard: ErrorCtor<any> | Guard<any>, handler: (e: HandlerInput<T>) => Promise<any>): any;
-  withAny<T extends Error>(ctors: ErrorCtor<T>[], handler: (e: T) => Promise<any>): any;
-  withNot<T extends Error>(ctors: ErrorCtor<T> | ErrorCtor<T>[], handler: (e: any) => Promise<any>): any;
-  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string>(
+export interface AsyncMatcher<Left, R = never> {
+  map(transform: (e: unknown) => unknown): AsyncMatcher<Left, R>;
+  with<C extends ErrorCtor<any> | Guard<any>, const Pat extends ErrorPattern<HandlerInput<C>>, H>(
+    ctorOrGuard: C,
+    pattern: Pat,
+    handler: (e: NarrowError<HandlerInput<C>, Pat>) => Promise<H>
+  ): AsyncMatcher<PatternNext<Left, C, Pat>, R | H>;
+  with<C extends ErrorCtor<any> | Guard<any>, H>(
+    ctorOrGuard: C,
+    handler: (e: HandlerInput<C>) => Promise<H>
+  ): AsyncMatcher<Next<Left, C>, R | H>;
+  withAny<Cs extends ErrorCtor<any>[], H>(
+    ctors: [...Cs],
+    handler: (e: HandlerInput<Cs[number]>) => Promise<H>
+  ): AsyncMatcher<Next<Left, Cs[number]>, R | H>;
+  withNot<const Cs extends ErrorCtor<any> | readonly ErrorCtor<any>[], H>(
+    ctors: Cs,
+    handler: (e: Next<Left, CtorsOf<Cs>>) => Promise<H>
+  ): AsyncMatcher<Exclude<Left, Next<Left, CtorsOf<Cs>>>, R | H>;
+  withEvery<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => Promise<H>
+  ): AsyncMatcher<Left, R | H>;
+  withSome<A extends ErrorCtor<any>, M extends ErrorCtor<any>, H>(
+    agg: A,
+    member: M,
+    handler: (e: HandlerInput<A>, members: HandlerInput<M>[]) => Promise<H>
+  ): AsyncMatcher<Left, R | H>;
+  select<C extends ErrorCtor<any>, K extends keyof ErrorData<C> & string, H>(
     ctor: C,
     key: K,
-    handler: (value: SelectValue<C, K>) => Promise<any>
-  ): any;
-  when(pred: (e: any) => boolean, handler: (e: any) => Promise<any>): any;
-  exhaustive(this: AsyncMatcher<never>): Promise<any>;
-  otherwise<R>(handler: (e: unknown) => Promise<R>): Promise<R>;
+    handler: (value: SelectValue<C, K>) => Promise<H>
+  ): AsyncMatcher<Next<Left, C>, R | H>;
+  when<H>(pred: (e: any) => boolean, handler: (e: any) => Promise<H>): AsyncMatcher<Left, R | H>;
+  debug(sink?: (trace: MatchTrace) => void): AsyncMatcher<Left, R>;
+  exhaustive(this: ExhaustiveThis<AsyncMatcher<Left, R>, Left>): Promise<R>;
+  otherwise<H>(handler: (e: unknown) => Promise<H>): Promise<R | H>;
 }
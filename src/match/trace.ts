@@ -0,0 +1,110 @@
+/**
+ * Traces of matchers, recorded by `.debug()` and attached to the
+ * `NonExhaustiveMatchError` thrown by `.exhaustive()`.
+ */
+
+/**
+ * How a case was added to a matcher: `.with()` on a constructor, a guard or a
+ * pattern, or the method of the same name.
+ */
+export type CaseKind = 'ctor' | 'guard' | 'pattern' | 'withAny' | 'withNot' | 'withEvery' | 'withSome' | 'select' | 'when';
+
+/**
+ * A case tested against an error.
+ */
+export interface TraceStep {
+  /** Position of the case in the chain, from 0 */
+  index: number;
+  /** How the case was added */
+  kind: CaseKind;
+  /** The case, such as `.with(NetworkError)` */
+  label: string;
+  /** Whether the case matched the error */
+  matched: boolean;
+}
+
+/**
+ * The cases a matcher tested against an error, in order, up to the first one that matched.
+ */
+export interface MatchTrace {
+  /** The error, after the transforms given to `.map()` */
+  error: unknown;
+  /** The cases tested */
+  steps: TraceStep[];
+  /** Position of the case that matched, undefined when none did */
+  matched?: number;
+}
+
+/**
+ * The parts of a matcher case recorded in traces.
+ */
+export interface TracedCase {
+  test: (e: unknown) => boolean;
+  kind: CaseKind;
+  label: string;
+}
+
+/**
+ * Tests cases against an error in order, recording each outcome, until one matches.
+ *
+ * @param cases - The cases, in order
+ * @param e - The error to match
+ * @returns The trace, whose `matched` is the position of the first matching case
+ */
+export function traceCases(cases: readonly TracedCase[], e: unknown): MatchTrace {
+  const steps: TraceStep[] = [];
+  for (let index = 0; index < cases.length; index++) {
+    const { kind, label, test } = cases[index];
+    const matched = test(e);
+    steps.push({ index, kind, label, matched });
+    if (matched) return { error: e, steps, matched: index };
+  }
+  return { error: e, steps };
+}
+
+/**
+ * The trace of an error no case matched, built without testing the cases again.
+ *
+ * @param cases - The cases, in order
+ * @param e - The unmatched error
+ * @returns A trace in which every case failed
+ */
+export function unmatchedTrace(cases: readonly TracedCase[], e: unknown): MatchTrace {
+  return { error: e, steps: cases.map(({ kind, label }, index) => ({ index, kind, label, matched: false })) };
+}
+
+/**
+ * Formats a trace as text, one line per case tested.
+ *
+ * @param trace - The trace
+ * @returns The formatted trace
+ *
+ * @example
+ * ```typescript
+ * formatTrace(trace);
+ * // matching NetworkError: down
+ * //   ✗ 0 .with(AuthError) [ctor]
+ * //   ✓ 1 .with(NetworkError, pattern) [pattern]
+ * ```
+ */
+export function formatTrace(trace: MatchTrace): string {
+  const lines = trace.steps.map(s => `  ${s.matched ? '✓' : '✗'} ${s.index} ${s.label} [${s.kind}]`);
+  if (trace.matched === undefined) lines.push('  no case matched');
+  return [`matching ${describe(trace.error)}`, ...lines].join('\n');
+}
+
+/** A short description of a matched value: its tag or name and message for errors */
+function describe(e: unknown): string {
+  if (!(e instanceof Error)) return typeof e === 'string' ? JSON.stringify(e) : String(e);
+  const { tag } = e as { tag?: unknown };
+  return `${typeof tag === 'string' ? tag : e.name}: ${e.message}`;
+}
+
+/**
+ * The default sink of `.debug()`, which prints traces with `console.debug`.
+ *
+ * @param trace - The trace
+ */
+export function logTrace(trace: MatchTrace): void {
+  console.debug(`[ts-typed-errors] ${formatTrace(trace)}`);
+}
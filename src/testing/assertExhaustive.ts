@@ -0,0 +1,56 @@
+/**
+ * One sample instance of each member of an error union, keyed by tag.
+ *
+ * @template E - The error union
+ */
+export type ErrorSamples<E extends { readonly tag: string }> = {
+  [Tag in E['tag']]: Extract<E, { readonly tag: Tag }>;
+};
+
+/**
+ * Runs a matcher against one sample of each member of an error union, so that
+ * a test fails when a handler is missing or throws.
+ *
+ * The samples are keyed by tag: leaving a member out of them is a compile error,
+ * so adding an error to the union also requires adding a sample.
+ *
+ * @template E - The error union
+ * @template R - The return type of the matcher
+ * @param match - The function matching an error, typically ending with `.exhaustive()`
+ * @param samples - One instance of each member of the union, keyed by tag
+ * @returns The result of the matcher for each sample, keyed by tag
+ * @throws {Error} If the matcher throws for a sample, naming the sample's tag, with the thrown error as `cause`
+ *
+ * @example
+ * ```typescript
+ * const results = assertExhaustive<AppError, number>(
+ *   e => matchErrorOf<AppError>(e)
+ *     .with(NetworkError, () => 503)
+ *     .with(AuthError, () => 401)
+ *     .exhaustive(),
+ *   {
+ *     NetworkError: new NetworkError('down', { status: 503, url: '/' }),
+ *     AuthError: new AuthError('nope', { reason: 'expired' }),
+ *   }
+ * );
+ * expect(results).toEqual({ NetworkError: 503, AuthError: 401 });
+ * ```
+ */
+export function assertExhaustive<E extends { readonly tag: string }, R = unknown>(
+  match: (e: E) => R,
+  samples: ErrorSamples<E>
+): Record<E['tag'], R> {
+  const results: Record<string, R> = {};
+  for (const [tag, sample] of Object.entries(samples) as [string, E][]) {
+    try {
+      results[tag] = match(sample);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      const failure = new Error(`Matcher failed for the ${tag} sample: ${reason}`);
+      // Keeps the original error, and the trace of a NonExhaustiveMatchError, as the native ES2022 `cause` would
+      Object.defineProperty(failure, 'cause', { value: e, writable: true, configurable: true });
+      throw failure;
+    }
+  }
+  return results as Record<E['tag'], R>;
+}
@@ -0,0 +1,12 @@
+/**
+ * Testing helpers, published as `ts-typed-errors/testing`.
+ *
+ * Nothing here depends on a test framework: the matchers follow the
+ * `expect.extend()` protocol and the serializer the snapshot plugin protocol
+ * shared by Vitest and Jest.
+ */
+export { typedErrorMatchers } from './matchers';
+export type { TypedErrorMatchers, DataPartial } from './matchers';
+export { errorSnapshotSerializer } from './snapshot';
+export { assertExhaustive } from './assertExhaustive';
+export type { ErrorSamples } from './assertExhaustive';
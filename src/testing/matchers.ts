@@ -0,0 +1,167 @@
+import type { ErrorCtor, Result } from '../core/types';
+import { isInstanceOf } from '../core/identity';
+
+/**
+ * The parts of the `this` of custom matchers used here, shared by Vitest and Jest.
+ */
+interface MatcherContext {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+  utils: {
+    printReceived(value: unknown): string;
+    printExpected(value: unknown): string;
+  };
+}
+
+/** The outcome of a custom matcher */
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Expected data fields of an error: a subset of its data, where values may be
+ * asymmetric matchers such as `expect.any(Number)`.
+ *
+ * @template E - The error type
+ */
+export type DataPartial<E> = E extends { readonly data: infer D } ? Partial<D> : Record<string, unknown>;
+
+/**
+ * Type declarations of the matchers, to merge into the test framework's assertion types.
+ *
+ * @template R - The return type of the framework's matchers
+ *
+ * @example
+ * ```typescript
+ * // vitest.d.ts
+ * import type { TypedErrorMatchers } from 'ts-typed-errors/testing';
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends TypedErrorMatchers<T> {}
+ * }
+ * ```
+ */
+export interface TypedErrorMatchers<R = unknown> {
+  /** Checks that a Result is successful, and optionally that its value equals `value` */
+  toBeOk(value?: unknown): R;
+  /** Checks that a Result failed, optionally with an instance of `ctor` whose data contains `data` */
+  toBeErr<E extends Error>(ctor?: ErrorCtor<E>, data?: DataPartial<E>): R;
+  /** Checks that a function throws an instance of `ctor` whose data contains `data` */
+  toThrowTypedError<E extends Error>(ctor: ErrorCtor<E>, data?: DataPartial<E>): R;
+  /** Checks that a promise (or async function) rejects with an instance of `ctor` whose data contains `data` */
+  toRejectWithTypedError<E extends Error>(ctor: ErrorCtor<E>, data?: DataPartial<E>): Promise<R>;
+}
+
+/**
+ * Custom matchers for Results and typed errors, for `expect.extend()` in Vitest or Jest.
+ *
+ * @example
+ * ```typescript
+ * import { expect } from 'vitest';
+ * import { typedErrorMatchers } from 'ts-typed-errors/testing';
+ *
+ * expect.extend(typedErrorMatchers);
+ *
+ * expect(parseAge('42')).toBeOk(42);
+ * expect(await getUser('1')).toBeErr(NetworkError, { status: 503 });
+ * expect(() => charge(card)).toThrowTypedError(PaymentError, { code: expect.any(String) });
+ * await expect(fetchUser('1')).toRejectWithTypedError(NetworkError);
+ * ```
+ */
+export const typedErrorMatchers = {
+  toBeOk(this: MatcherContext, received: unknown, ...expected: [unknown?]): MatcherResult {
+    if (!isResult(received)) return notAResult(this, received);
+    const result = received;
+    const pass = result.ok && (expected.length === 0 || this.equals(result.value, expected[0]));
+    return {
+      pass,
+      message: () => {
+        if (!result.ok) return `expected an Ok Result, received Err ${this.utils.printReceived(result.error)}`;
+        return this.isNot
+          ? `expected the Result not to be Ok${expected.length ? ` with ${this.utils.printExpected(expected[0])}` : ''}`
+          : `expected Ok ${this.utils.printExpected(expected[0])}, received Ok ${this.utils.printReceived(result.value)}`;
+      },
+    };
+  },
+
+  toBeErr(this: MatcherContext, received: unknown, ctor?: ErrorCtor<any>, data?: object): MatcherResult {
+    if (!isResult(received)) return notAResult(this, received);
+    const result = received;
+    if (result.ok) {
+      return { pass: false, message: () => `expected an Err Result, received Ok ${this.utils.printReceived(result.value)}` };
+    }
+    return checkError(this, result.error, ctor, data, 'the Result error');
+  },
+
+  toThrowTypedError(this: MatcherContext, received: unknown, ctor: ErrorCtor<any>, data?: object): MatcherResult {
+    if (typeof received !== 'function') {
+      return { pass: false, message: () => `expected a function, received ${this.utils.printReceived(received)}` };
+    }
+    try {
+      received();
+    } catch (e) {
+      return checkError(this, e, ctor, data, 'the thrown error');
+    }
+    return { pass: false, message: () => `expected the function to throw ${nameOf(ctor)}, but it did not throw` };
+  },
+
+  async toRejectWithTypedError(
+    this: MatcherContext,
+    received: unknown,
+    ctor: ErrorCtor<any>,
+    data?: object
+  ): Promise<MatcherResult> {
+    try {
+      await (typeof received === 'function' ? received() : received);
+    } catch (e) {
+      return checkError(this, e, ctor, data, 'the rejection');
+    }
+    return { pass: false, message: () => `expected the promise to reject with ${nameOf(ctor)}, but it resolved` };
+  },
+};
+
+/** Checks the class and the data of an error */
+function checkError(
+  ctx: MatcherContext,
+  error: unknown,
+  ctor: ErrorCtor<any> | undefined,
+  data: object | undefined,
+  subject: string
+): MatcherResult {
+  const expected = ctor ? nameOf(ctor) : 'an error';
+  if (ctor && !isInstanceOf(error, ctor)) {
+    return { pass: false, message: () => `expected ${subject} to be ${expected}, received ${ctx.utils.printReceived(error)}` };
+  }
+  const actual = typeof error === 'object' && error !== null ? (error as { data?: unknown }).data : undefined;
+  const pass = data === undefined || containsData(ctx, actual, data);
+  return {
+    pass,
+    message: () => ctx.isNot
+      ? `expected ${subject} not to be ${expected}${data ? ` with data ${ctx.utils.printExpected(data)}` : ''}`
+      : `expected ${subject} data to contain ${ctx.utils.printExpected(data)}, received ${ctx.utils.printReceived(actual)}`,
+  };
+}
+
+/** Whether each expected field equals the matching field of the data */
+function containsData(ctx: MatcherContext, actual: unknown, expected: object): boolean {
+  if (typeof actual !== 'object' || actual === null) return false;
+  return Object.entries(expected).every(
+    ([key, value]) => key in actual && ctx.equals((actual as Record<string, unknown>)[key], value)
+  );
+}
+
+/** The tag of a defined error class, or the name of another class */
+function nameOf(ctor: ErrorCtor<any>): string {
+  const { tag } = ctor as { tag?: unknown };
+  return typeof tag === 'string' ? tag : ctor.name;
+}
+
+/** Whether a value looks like a Result */
+function isResult(value: unknown): value is Result<unknown, unknown> {
+  return typeof value === 'object' && value !== null && typeof (value as { ok?: unknown }).ok === 'boolean';
+}
+
+/** The failure of a Result matcher given something else */
+function notAResult(ctx: MatcherContext, received: unknown): MatcherResult {
+  return { pass: false, message: () => `expected a Result, received ${ctx.utils.printReceived(received)}` };
+}
@@ -0,0 +1,52 @@
+import { errorBrand } from '../core/identity';
+import { metadataKeys } from '../errors/defineError';
+
+/** The printer given to snapshot serializers by Vitest and Jest (pretty-format) */
+type Printer<Config, Refs> = (value: unknown, config: Config, indentation: string, depth: number, refs: Refs) => string;
+
+/**
+ * Snapshot serializer printing defined errors without their stack, which
+ * changes with every edit of the calling code.
+ *
+ * Errors are printed as their tag followed by their message, data, metadata,
+ * context and cause; nested defined errors are printed the same way.
+ *
+ * @example
+ * ```typescript
+ * import { expect } from 'vitest';
+ * import { errorSnapshotSerializer } from 'ts-typed-errors/testing';
+ *
+ * expect.addSnapshotSerializer(errorSnapshotSerializer);
+ * expect(new NetworkError('Request failed', { status: 503 })).toMatchInlineSnapshot(`
+ *   NetworkError {
+ *     "data": {
+ *       "status": 503,
+ *     },
+ *     "message": "Request failed",
+ *   }
+ * `);
+ * ```
+ */
+export const errorSnapshotSerializer = {
+  test(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && Array.isArray((value as { [errorBrand]?: unknown })[errorBrand]);
+  },
+
+  serialize<Config, Refs>(
+    value: unknown,
+    config: Config,
+    indentation: string,
+    depth: number,
+    refs: Refs,
+    printer: Printer<Config, Refs>
+  ): string {
+    const error = value as Error & { tag: string; data: object; cause?: unknown; context?: object };
+    const fields: Record<string, unknown> = { message: error.message, data: error.data };
+    for (const key of metadataKeys) {
+      if (error[key as keyof typeof error] !== undefined) fields[key] = error[key as keyof typeof error];
+    }
+    if (error.context) fields.context = error.context;
+    if ('cause' in error) fields.cause = error.cause;
+    return `${error.tag} ${printer(fields, config, indentation, depth, refs)}`;
+  },
+};
@@ -0,0 +1,147 @@
+/**
+ * Helpers for aggregate errors: native `AggregateError` (from `Promise.any`),
+ * errors created with `defineAggregateError`, and `CollectedError`.
+ *
+ * Native aggregates keep their members in `errors`; defined aggregates keep
+ * them in `data.errors`. Every helper accepts both.
+ */
+
+/**
+ * The members of an aggregate error type.
+ *
+ * @template E - The aggregate error type
+ */
+export type AggregateMembers<E> = E extends { readonly data: { readonly errors: readonly (infer M)[] } }
+  ? M
+  : E extends { readonly errors: readonly (infer M)[] }
+    ? M
+    : never;
+
+/**
+ * The errors left once nested aggregates are replaced by their members.
+ *
+ * @template E - The error type to flatten
+ */
+export type LeafErrors<E> = E extends unknown
+  ? [AggregateMembers<E>] extends [never]
+    ? E
+    : 0 extends 1 & AggregateMembers<E>
+      ? unknown
+      : LeafErrors<AggregateMembers<E>>
+  : never;
+
+/**
+ * Errors grouped by tag, as returned by `groupByTag()`.
+ *
+ * @template E - The grouped error type
+ */
+export type ErrorsByTag<E> = {
+  [Tag in TagOf<E>]?: [Extract<E, { readonly tag: Tag }>] extends [never] ? E[] : Extract<E, { readonly tag: Tag }>[];
+};
+
+/** The tag of a defined error, `string` for any other value */
+type TagOf<E> = E extends { readonly tag: infer Tag extends string } ? Tag : string;
+
+/**
+ * Marks aggregate errors other than native ones, on the prototype of their
+ * class. Keyed with `Symbol.for`, so it is shared across bundles and realms.
+ */
+export const aggregateBrand: unique symbol = Symbol.for('ts-typed-errors.aggregate') as any;
+
+/**
+ * Marks the instances of an error class (or a single error) as aggregates.
+ *
+ * @param target - The prototype of the class, or the error
+ */
+export function markAggregate(target: object): void {
+  Object.defineProperty(target, aggregateBrand, { value: true });
+}
+
+/** Whether a value is a native `AggregateError`, from any realm, or marked as an aggregate */
+function isAggregate(e: object): boolean {
+  if ((e as { [aggregateBrand]?: unknown })[aggregateBrand] === true) return true;
+  const Native = (globalThis as { AggregateError?: abstract new (...args: any[]) => Error }).AggregateError;
+  if (Native && e instanceof Native) return true;
+  return Object.prototype.toString.call(e) === '[object Error]' && (e as Error).name === 'AggregateError';
+}
+
+/**
+ * Returns the members of an aggregate error.
+ *
+ * Only native `AggregateError`s, `CollectedError`s and `defineAggregateError`
+ * classes are aggregates: an `errors` field in the data of another error is
+ * plain data.
+ *
+ * @param e - The value to inspect
+ * @returns The `errors` of a native `AggregateError`, the `data.errors` of a defined aggregate, or undefined
+ */
+export function aggregatedErrors(e: unknown): unknown[] | undefined {
+  if (typeof e !== 'object' || e === null || !isAggregate(e)) return undefined;
+  const { errors, data } = e as { errors?: unknown; data?: { errors?: unknown } };
+  if (Array.isArray(errors)) return errors;
+  return Array.isArray(data?.errors) ? data.errors : undefined;
+}
+
+/**
+ * Lists the errors held by an aggregate, expanding nested aggregates.
+ *
+ * @param error - The aggregate (or any error)
+ * @returns The non-aggregate members, depth first; the error itself if it is not an aggregate
+ *
+ * @example
+ * ```typescript
+ * const batch = new BatchError({ errors: [networkError, new BatchError({ errors: [validationError] })] });
+ * flatten(batch); // [networkError, validationError]
+ *
+ * const r = await fromPromise(Promise.any([primary(), fallback()]));
+ * if (!r.ok) flatten(r.error).forEach(e => log(e));
+ * ```
+ */
+export function flatten<E>(error: E): LeafErrors<E>[] {
+  const leaves: unknown[] = [];
+  const seen = new Set<unknown>();
+  const visit = (e: unknown) => {
+    const members = aggregatedErrors(e);
+    if (!members) {
+      leaves.push(e);
+    } else if (!seen.has(e)) {
+      seen.add(e);
+      members.forEach(visit);
+    }
+  };
+  visit(error);
+  return leaves as LeafErrors<E>[];
+}
+
+/**
+ * Groups the errors held by an aggregate by tag, expanding nested aggregates.
+ *
+ * Defined errors are grouped by `tag`, other errors by `name`, and thrown
+ * values that are not errors under `'UnknownError'`.
+ *
+ * @param error - The aggregate, or a list of errors
+ * @returns The errors of each tag, in their original order
+ *
+ * @example
+ * ```typescript
+ * const groups = groupByTag(batch);
+ * groups.ValidationError?.forEach(e => console.log(e.data.field)); // typed as ValidationError[]
+ * ```
+ */
+export function groupByTag<E>(error: E): ErrorsByTag<LeafErrors<E extends readonly (infer M)[] ? M : E>> {
+  const groups: Record<string, unknown[]> = {};
+  const leaves = Array.isArray(error) ? error.flatMap(e => flatten(e)) : flatten(error);
+  for (const leaf of leaves) {
+    const tag = tagOf(leaf);
+    (groups[tag] ??= []).push(leaf);
+  }
+  return groups as ErrorsByTag<LeafErrors<E extends readonly (infer M)[] ? M : E>>;
+}
+
+/** The tag of a defined error, the name of another error, or `'UnknownError'` */
+function tagOf(e: unknown): string {
+  if (typeof e !== 'object' || e === null) return 'UnknownError';
+  const { tag, name } = e as { tag?: unknown; name?: unknown };
+  if (typeof tag === 'string') return tag;
+  return typeof name === 'string' ? name : 'UnknownError';
+}
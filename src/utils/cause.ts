@@ -0,0 +1,86 @@
+import type { ErrorCtor } from '../core/types';
+import { isInstanceOf } from '../core/identity';
+
+/**
+ * Helpers for walking `cause` chains.
+ *
+ * A chain starts at an error and follows its ES2022 `cause` property until a
+ * value has no cause. Cyclic chains are cut at the first repeated value.
+ */
+
+/**
+ * Lists an error followed by its causes, outermost first.
+ *
+ * @param error - The error to start from
+ * @returns The error and every cause below it
+ *
+ * @example
+ * ```typescript
+ * const e = new ServiceError('Checkout failed', {}, { cause: new DbError('Timeout', {}, { cause: socketError }) });
+ * causeChain(e); // [e, dbError, socketError]
+ * ```
+ */
+export function causeChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+  while (current !== undefined && !chain.includes(current)) {
+    chain.push(current);
+    if (typeof current !== 'object' || current === null) break;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain;
+}
+
+/**
+ * Returns the innermost cause of an error.
+ *
+ * @param error - The error to start from
+ * @returns The last value of the cause chain (the error itself if it has no cause)
+ *
+ * @example
+ * ```typescript
+ * rootCause(e); // socketError
+ * ```
+ */
+export function rootCause(error: unknown): unknown {
+  const chain = causeChain(error);
+  return chain[chain.length - 1];
+}
+
+/**
+ * Finds the first cause of an error that is an instance of the given constructor.
+ *
+ * Only the causes are searched, not the error itself.
+ *
+ * @param error - The error whose causes are searched
+ * @param ctor - The error constructor to look for
+ * @returns The matching cause, or undefined
+ *
+ * @example
+ * ```typescript
+ * const db = findCause(e, DbError);
+ * if (db) {
+ *   console.log(db.data.query); // typed as DbError
+ * }
+ * ```
+ */
+export function findCause<T extends Error>(error: unknown, ctor: ErrorCtor<T>): T | undefined {
+  return causeChain(error).slice(1).find((cause): cause is T => isInstanceOf(cause, ctor));
+}
+
+/**
+ * Creates a guard matching errors caused, directly or not, by the given error type.
+ *
+ * @param ctor - The error constructor to look for among the causes
+ * @returns A guard usable with `isAllOf`, `.with()` and `.when()`
+ *
+ * @example
+ * ```typescript
+ * matchError(error)
+ *   .with(hasCause(DbError), () => 'Storage is unavailable')
+ *   .otherwise(() => 'Unknown failure');
+ * ```
+ */
+export const hasCause = <T extends Error>(ctor: ErrorCtor<T>) =>
+  (e: unknown): e is Error & { cause: unknown } =>
+    findCause(e, ctor) !== undefined;
@@ -0,0 +1,205 @@
+import type { ErrorMetadata } from '../core/types';
+import { isNativeError } from '../core/identity';
+import { metadataKeys, redactedMessage } from '../errors/defineError';
+import { aggregatedErrors } from './aggregate';
+import { redactData, redactionKey } from './redaction';
+import type { RedactionRules, SerializeProfile } from './redaction';
+
+/**
+ * Options accepted by `formatError()`.
+ */
+export interface FormatErrorOptions {
+  /** Use ANSI colours (default: when stdout is a terminal and `NO_COLOR` is not set) */
+  colors?: boolean;
+  /** Maximum line width (default: the terminal width, or 80) */
+  width?: number;
+  /**
+   * Which stack frames to show: `'app'` hides `node_modules` and runtime internals (default),
+   * `'all'` shows every frame, `'none'` hides the stack
+   */
+  frames?: 'app' | 'all' | 'none';
+  /** Additional frame filter; return false to hide a frame */
+  filterFrame?: (frame: string) => boolean;
+  /** Maximum depth of the cause and aggregate tree (default: 10) */
+  depth?: number;
+  /**
+   * Who the output is meant for, deciding how the `sensitive` and `internal`
+   * fields are hidden, as with `serialize()` (default: `'internal'`, which hides
+   * the sensitive fields, for logs). Messages derived from a `message` template
+   * are derived again from the hidden data.
+   */
+  profile?: SerializeProfile;
+}
+
+/** Options with defaults applied */
+interface Settings {
+  paint: (style: keyof typeof styles, text: string) => string;
+  width: number;
+  frames: 'app' | 'all' | 'none';
+  filterFrame?: (frame: string) => boolean;
+  depth: number;
+  profile: SerializeProfile;
+}
+
+/** The parts of Node's `process` used to pick defaults, when running in Node */
+interface NodeProcess {
+  stdout?: { isTTY?: boolean; columns?: number };
+  env?: Record<string, string | undefined>;
+}
+
+/** ANSI codes of the styles used by the renderer */
+const styles = { bold: '1', dim: '2', red: '31', yellow: '33', cyan: '36', gray: '90' };
+
+/** Frames from dependencies and from the runtime itself, including builtins such as `at async Promise.all (index 0)` */
+const hiddenFramePattern = /node_modules|node:internal|\(internal\/|\((?:native|index \d+)\)$/;
+
+/** Stack frames, in V8 (`at fn (file:1:2)`) or SpiderMonkey/JavaScriptCore (`fn@file:1:2`) format */
+const framePattern = /^at\s|^\S*@\S+:\d+:\d+$/;
+
+/**
+ * Renders an error, its data, metadata, stack, causes and aggregated errors
+ * for a terminal.
+ *
+ * Defined errors use it for `util.inspect()` (and so `console.log()`) in Node,
+ * with the `'internal'` profile: their sensitive fields are hidden.
+ *
+ * @param error - The error (or any thrown value) to render
+ * @param options - Rendering options
+ * @returns The rendered text, without trailing newline
+ *
+ * @example
+ * ```typescript
+ * console.error(formatError(error, { width: 100, frames: 'app' }));
+ * // NetworkError: HTTP 503 for /api
+ * //   code E_NETWORK · httpStatus 503 · retryable true
+ * //   │ status  503
+ * //   │ url     /api
+ * //   at fetchUser (src/api.ts:12:11)
+ * //   … 4 frames hidden
+ * //   ↳ caused by Error: connect ECONNREFUSED
+ * ```
+ */
+export function formatError(error: unknown, options: FormatErrorOptions = {}): string {
+  const env = (globalThis as { process?: NodeProcess }).process;
+  const colors = options.colors ?? (!!env?.stdout?.isTTY && !env.env?.NO_COLOR);
+  const settings: Settings = {
+    paint: (style, text) => (colors ? `\x1b[${styles[style]}m${text}\x1b[0m` : text),
+    width: Math.max(40, options.width ?? env?.stdout?.columns ?? 80),
+    frames: options.frames ?? 'app',
+    filterFrame: options.filterFrame,
+    depth: options.depth ?? 10,
+    profile: options.profile ?? 'internal',
+  };
+  return render(error, '', 0, new Set(), settings).join('\n');
+}
+
+/** Renders one node of the error tree and its children */
+function render(error: unknown, indent: string, depth: number, seen: Set<unknown>, s: Settings): string[] {
+  if (!isNativeError(error)) return [indent + s.paint('red', String(error))];
+  if (seen.has(error)) return [indent + s.paint('dim', '[Circular]')];
+  seen.add(error);
+
+  const e = error as Error & ErrorMetadata & { tag?: string; data?: unknown; cause?: unknown; errors?: unknown };
+  const pad = indent + '  ';
+  const title = `${s.paint('bold', s.paint('red', e.tag ?? e.name))}: `;
+  const rules = (e as { [redactionKey]?: RedactionRules })[redactionKey];
+  const data = typeof e.data === 'object' && e.data !== null ? redactData(e.data as Record<string, unknown>, rules, s.profile) : e.data;
+  // A message derived from the data would otherwise show the fields hidden from it
+  const message = data !== e.data ? redactedMessage(e, data as object) : e.message;
+  const lines = wrap(message, s.width - indent.length - visibleLength(title)).map(
+    (line, i) => (i === 0 ? indent + title + line : pad + line)
+  );
+
+  const metadata = metadataKeys
+    .filter(key => e[key] !== undefined)
+    .map(key => `${s.paint('cyan', key)} ${String(e[key])}`);
+  if (metadata.length > 0) lines.push(pad + metadata.join(s.paint('dim', ' · ')));
+
+  const aggregated = aggregatedErrors(e);
+  lines.push(...renderData(data, aggregated ? 'errors' : undefined, pad, s));
+  if (s.frames !== 'none') lines.push(...renderFrames(e.stack, pad, s));
+
+  if (depth >= s.depth) {
+    if (e.cause !== undefined || aggregated) lines.push(pad + s.paint('dim', '… deeper errors hidden'));
+    return lines;
+  }
+  if (aggregated) {
+    lines.push(pad + s.paint('yellow', `↳ ${aggregated.length} aggregated error${aggregated.length === 1 ? '' : 's'}`));
+    const childIndent = pad + '     ';
+    aggregated.forEach((child, i) => {
+      const [first, ...rest] = render(child, childIndent, depth + 1, seen, s);
+      lines.push(`${pad}  ${s.paint('dim', `${i + 1}.`)} ${first.slice(childIndent.length)}`, ...rest);
+    });
+  }
+  if (e.cause !== undefined) {
+    const [first, ...rest] = render(e.cause, pad, depth + 1, seen, s);
+    lines.push(pad + s.paint('yellow', '↳ caused by ') + first.slice(pad.length), ...rest);
+  }
+  return lines;
+}
+
+/** Renders the data of an error as an aligned key/value table */
+function renderData(data: unknown, skip: string | undefined, pad: string, s: Settings): string[] {
+  if (typeof data !== 'object' || data === null) return [];
+  const entries = Object.entries(data).filter(([key]) => key !== skip);
+  if (entries.length === 0) return [];
+  const keyWidth = Math.max(...entries.map(([key]) => key.length));
+  const bar = s.paint('gray', '│ ');
+  const valueWidth = s.width - pad.length - keyWidth - 4;
+  return entries.flatMap(([key, value]) =>
+    wrap(formatValue(value), valueWidth).map((line, i) =>
+      pad + bar + (i === 0 ? s.paint('cyan', key.padEnd(keyWidth)) : ' '.repeat(keyWidth)) + '  ' + line
+    )
+  );
+}
+
+/** Renders the stack frames of an error, hiding filtered ones */
+function renderFrames(stack: string | undefined, pad: string, s: Settings): string[] {
+  if (!stack) return [];
+  const frames = stack.split('\n').map(line => line.trim()).filter(line => framePattern.test(line));
+  const shown = frames.filter(frame =>
+    (s.frames === 'all' || !hiddenFramePattern.test(frame)) && (!s.filterFrame || s.filterFrame(frame))
+  );
+  const lines = shown.map(frame => pad + s.paint('dim', truncate(frame, s.width - pad.length)));
+  const hidden = frames.length - shown.length;
+  if (hidden > 0) lines.push(pad + s.paint('dim', `… ${hidden} frame${hidden === 1 ? '' : 's'} hidden`));
+  return lines;
+}
+
+/** Renders a data value on a single line */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (isNativeError(value)) return `[${value.name}: ${value.message}]`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Splits text into lines of at most `width` characters, breaking at spaces when possible */
+function wrap(text: string, width: number): string[] {
+  const max = Math.max(10, width);
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let rest = paragraph;
+    while (rest.length > max) {
+      const space = rest.lastIndexOf(' ', max);
+      const cut = space > 0 ? space : max;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut).replace(/^ /, '');
+    }
+    lines.push(rest);
+  }
+  return lines;
+}
+
+/** Shortens a line to `width` characters */
+function truncate(text: string, width: number): string {
+  return text.length <= width ? text : text.slice(0, Math.max(1, width - 1)) + '…';
+}
+
+/** Length of a string once ANSI escapes are removed */
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[\d+m/g, '').length;
+}
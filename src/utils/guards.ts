@@ -1,4 +1,5 @@
-import type { ErrorCtor } from '../core/types';
+import type { ErrorCtor, Severity } from '../core/types';
+import { isInstanceOf, isNativeError } from '../core/identity';
 
 /**
  * Various guards and predicates useful when matching errors.
@@ -29,7 +30,7 @@ import type { ErrorCtor } from '../core/types';
  * ```
  */
 export const isError = (e: unknown): e is Error =>
-  e instanceof Error || (typeof e === 'object' && e !== null && 'name' in (e as any) && 'message' in (e as any));
+  isNativeError(e) || (typeof e === 'object' && e !== null && 'name' in (e as any) && 'message' in (e as any));
 
 /**
  * Creates a type guard for errors with a specific code property.
@@ -103,7 +104,7 @@ export function isErrorOf<T extends Error>(
   predicate?: (e: T) => boolean
 ): (e: unknown) => e is T {
   return (e: unknown): e is T => {
-    if (!(e instanceof ctor)) return false;
+    if (!isInstanceOf(e, ctor)) return false;
     if (predicate && !predicate(e as T)) return false;
     return true;
   };
@@ -140,7 +141,7 @@ export function isAnyOf<T extends readonly ErrorCtor<any>[]>(
   error: unknown,
   ctors: T
 ): error is InstanceType<T[number]> {
-  return ctors.some(ctor => error instanceof ctor);
+  return ctors.some(ctor => isInstanceOf(error, ctor));
 }
 
 /**
@@ -173,3 +174,42 @@ export function isAllOf<T>(
 ): value is T {
   return guards.every(guard => guard(value));
 }
+
+/**
+ * Checks whether an error is marked as retryable.
+ *
+ * Reads the `retryable` metadata given to `defineError`, which also survives
+ * serialization, so retry policies need no per-class `switch`.
+ *
+ * @param e - The value to check
+ * @returns True if the error declares `retryable: true`
+ *
+ * @example
+ * ```typescript
+ * const RateLimited = defineError('RateLimited', { retryable: true, httpStatus: 429 })();
+ *
+ * if (isRetryable(error)) {
+ *   await delay(backoff(attempt));
+ *   return run(attempt + 1);
+ * }
+ * ```
+ */
+export const isRetryable = (e: unknown): e is Error & { retryable: true } =>
+  typeof e === 'object' && e !== null && (e as any).retryable === true;
+
+/**
+ * Reads the severity of an error.
+ *
+ * @param e - The error to inspect
+ * @returns The `severity` metadata given to `defineError`, or undefined if the error has none
+ *
+ * @example
+ * ```typescript
+ * const Degraded = defineError('Degraded', { severity: 'warning' })();
+ *
+ * logger.log(severityOf(error) ?? 'error', serialize(error));
+ * ```
+ */
+export function severityOf(e: unknown): Severity | undefined {
+  return typeof e === 'object' && e !== null ? (e as { severity?: Severity }).severity : undefined;
+}
@@ -0,0 +1,121 @@
+import type { DefineErrorOptions, RedactionMode } from '../core/types';
+import { settings } from '../core/identity';
+
+/**
+ * Who serialized errors are meant for:
+ * - `'public'`: clients; sensitive fields hidden, internal fields and stack omitted,
+ * - `'internal'`: logs and other services; sensitive fields hidden,
+ * - `'debug'`: local debugging; everything kept.
+ */
+export type SerializeProfile = 'public' | 'internal' | 'debug';
+
+/**
+ * The sensitive and internal fields of an error class, including its ancestors'.
+ */
+export interface RedactionRules {
+  /** How each sensitive field is hidden, by path */
+  readonly sensitive: Readonly<Record<string, RedactionMode>>;
+  /** Paths of the internal fields */
+  readonly internal: readonly string[];
+}
+
+/** Key under which error classes keep their redaction rules, shared across bundles */
+export const redactionKey = Symbol.for('ts-typed-errors.redaction');
+
+/** Replaces redacted values */
+const placeholder = '[REDACTED]';
+
+/**
+ * Combines the rules inherited from a parent class with the options of a class.
+ *
+ * @param parent - The rules of the parent class, if any
+ * @param options - The options given to `defineError` or `.extend()`
+ * @returns The rules of the class, or undefined if it has no sensitive or internal field
+ */
+export function redactionRules(
+  parent: RedactionRules | undefined,
+  options: Pick<DefineErrorOptions, 'sensitive' | 'internal'>
+): RedactionRules | undefined {
+  if (!options.sensitive && !options.internal) return parent;
+  const sensitive: Record<string, RedactionMode> = { ...parent?.sensitive };
+  if (Array.isArray(options.sensitive)) {
+    for (const path of options.sensitive) sensitive[path] = 'redact';
+  } else {
+    Object.assign(sensitive, options.sensitive);
+  }
+  return Object.freeze({
+    sensitive: Object.freeze(sensitive),
+    internal: Object.freeze([...(parent?.internal ?? []), ...(options.internal ?? [])]),
+  });
+}
+
+/**
+ * Hides the sensitive and internal fields of error data for a profile.
+ *
+ * The data is never mutated; objects along redacted paths are copied.
+ *
+ * @param data - The data of the error
+ * @param rules - The redaction rules of its class
+ * @param profile - Who the output is meant for
+ * @returns The data to serialize
+ */
+export function redactData(
+  data: Record<string, any>,
+  rules: RedactionRules | undefined,
+  profile: SerializeProfile
+): Record<string, any> {
+  if (!rules || profile === 'debug') return data;
+  let result = data;
+  for (const [path, mode] of Object.entries(rules.sensitive)) {
+    result = updateAt(result, path.split('.'), mode);
+  }
+  if (profile === 'public') {
+    for (const path of rules.internal) result = updateAt(result, path.split('.'), 'omit');
+  }
+  return result;
+}
+
+/** Applies a redaction mode at a path, copying the objects on the way */
+function updateAt(target: Record<string, any>, keys: string[], mode: RedactionMode): Record<string, any> {
+  const [key, ...rest] = keys;
+  if (!(key in target)) return target;
+  const copy = { ...target };
+  if (rest.length > 0) {
+    const child = target[key];
+    if (typeof child !== 'object' || child === null) return target;
+    copy[key] = updateAt(child, rest, mode);
+  } else if (mode === 'omit') {
+    delete copy[key];
+  } else {
+    copy[key] = mode === 'hash' ? hashValue(target[key]) : placeholder;
+  }
+  return copy;
+}
+
+/**
+ * Hashes a value so that equal values can be correlated without being revealed,
+ * with the `redactionHash` given to `configure()`.
+ */
+function hashValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  const hash = settings().redactionHash;
+  return `[hash:${hash ? hash(text) : cyrb53(text)}]`;
+}
+
+/**
+ * The default hash: fast, unkeyed and non-cryptographic (cyrb53). It hides
+ * values from casual readers, but low-entropy values can be recovered by brute force.
+ */
+function cyrb53(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+}
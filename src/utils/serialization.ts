@@ -1,22 +1,62 @@
-import type { ErrorCtor } from '../core/types';
+import type { ErrorContext, ErrorCtor, ErrorMetadata } from '../core/types';
+import type { ErrorRegistry } from '../errors/defineErrors';
+import { constructLeniently, hasDerivedMessage, InvalidErrorDataError, metadataKeys, redactedMessage } from '../errors/defineError';
+import { isNativeError } from '../core/identity';
+import type { RedactionRules, SerializeProfile } from './redaction';
+import { redactData, redactionKey } from './redaction';
+import type { StackFrame } from './stack';
+import { stackFrames } from './stack';
+import { aggregatedErrors, markAggregate } from './aggregate';
 
 /**
  * Serialized representation of an error.
  *
  * This format is JSON-safe and suitable for transmission over the network,
- * logging, or storage.
+ * logging, or storage. Metadata fields (`code`, `httpStatus`, ...) are only
+ * present when the error has them.
  */
-export interface SerializedError {
+export interface SerializedError extends ErrorMetadata {
   /** The error tag/name for identification */
   tag: string;
   /** The error message */
   message: string;
   /** The error name */
   name: string;
+  /**
+   * Whether the message was derived from the `message` template of the class
+   * and the data as serialized, so that `deserialize()` derives it again
+   */
+  derivedMessage?: boolean;
   /** Optional structured data associated with the error */
   data?: Record<string, any>;
   /** Optional stack trace (may be omitted in production) */
   stack?: string;
+  /** The parsed frames of the stack trace, when requested */
+  frames?: StackFrame[];
+  /** The context of the `withErrorContext()` scope the error was raised in, if any */
+  context?: ErrorContext;
+  /** The serialized `cause` of the error, if any */
+  cause?: SerializedError;
+  /** The serialized members of an aggregate error, if any */
+  errors?: SerializedError[];
+}
+
+/**
+ * Options accepted by `serialize()` and `toJSON()`.
+ */
+export interface SerializeOptions {
+  /** Whether to include the stack trace (default: true; never included by the `'public'` profile) */
+  includeStack?: boolean;
+  /**
+   * Who the output is meant for, deciding how the `sensitive` and `internal`
+   * fields declared to `defineError` are hidden (default: `'debug'`, which keeps everything).
+   *
+   * Messages derived from a `message` template are derived again from the
+   * hidden data; a message given to the constructor is output as is.
+   */
+  profile?: SerializeProfile;
+  /** Whether to add the parsed `frames` of the stack trace, when it is included (default: false) */
+  frames?: boolean;
 }
 
 /**
@@ -24,9 +64,12 @@ export interface SerializedError {
  *
  * This function converts an error instance into a plain object that can be
  * safely stringified to JSON, transmitted over the network, or stored.
+ * The `cause` chain and the members of aggregate errors are serialized
+ * recursively, with the same profile, and the
+ * `withErrorContext()` context of each error is kept so logs can be correlated.
  *
  * @param error - The error to serialize
- * @param includeStack - Whether to include the stack trace (default: true in dev)
+ * @param options - Whether to include the stack trace, or serialization options
  * @returns A plain object representation of the error
  *
  * @example
@@ -40,6 +83,8 @@ export interface SerializedError {
  * //   message: 'Request failed',
  * //   name: 'NetworkError',
  * //   data: { status: 500, url: '/api' },
+ * //   httpStatus: 502, // metadata given to defineError, if any
+ * //   context: { requestId: 'r_42' }, // from withErrorContext(), if any
  * //   stack: '...'
  * // }
  *
@@ -48,13 +93,29 @@ export interface SerializedError {
  *   method: 'POST',
  *   body: JSON.stringify(serialized)
  * });
+ *
+ * // Respond to a client without sensitive fields, internal fields or stack
+ * res.status(500).json(serialize(error, { profile: 'public' }));
  * ```
  */
 export function serialize(
   error: Error | unknown,
-  includeStack: boolean = true
+  options: boolean | SerializeOptions = true
+): SerializedError {
+  const { includeStack = true, profile = 'debug', frames = false } =
+    typeof options === 'boolean' ? { includeStack: options } : options;
+  return serializeError(error, includeStack && profile !== 'public', frames, profile, new Set());
+}
+
+/** Serializes an error and its causes, stopping at cyclic causes */
+function serializeError(
+  error: unknown,
+  includeStack: boolean,
+  includeFrames: boolean,
+  profile: SerializeProfile,
+  seen: Set<unknown>
 ): SerializedError {
-  if (!(error instanceof Error)) {
+  if (!isNativeError(error)) {
     return {
       tag: 'UnknownError',
       message: String(error),
@@ -72,17 +133,65 @@ export function serialize(
 
   // Include data if present (from defineError)
   if ('data' in error && error.data) {
-    serialized.data = error.data as Record<string, any>;
+    const rules = (error as { [redactionKey]?: RedactionRules })[redactionKey];
+    serialized.data = redactData(error.data as Record<string, any>, rules, profile);
+    // A message derived from the data would otherwise show the fields hidden from it
+    if (serialized.data !== error.data) serialized.message = redactedMessage(error, serialized.data!);
+    // Omitted fields would leave placeholders in a message derived again from redacted data
+    else if (hasDerivedMessage(error)) serialized.derivedMessage = true;
+  }
+
+  // Include metadata (from defineError options, or e.g. Node's `code`)
+  for (const key of metadataKeys) {
+    const value = (error as ErrorMetadata)[key];
+    if (value !== undefined) (serialized as any)[key] = value;
+  }
+
+  // Include the context of the scope the error was raised in
+  const context = (error as { context?: unknown }).context;
+  if (typeof context === 'object' && context !== null) {
+    serialized.context = context as ErrorContext;
   }
 
   // Include stack trace if requested
   if (includeStack && error.stack) {
     serialized.stack = error.stack;
+    if (includeFrames) serialized.frames = stackFrames(error.stack);
+  }
+
+  // Include the cause chain
+  seen.add(error);
+  const cause = (error as { cause?: unknown }).cause;
+  if (cause !== undefined && !seen.has(cause)) {
+    serialized.cause = serializeError(cause, includeStack, includeFrames, profile, seen);
+  }
+
+  // Include the members of aggregate errors, in place of their `data.errors`
+  const members = aggregatedErrors(error);
+  if (members) {
+    serialized.errors = members
+      .filter(member => !seen.has(member))
+      .map(member => serializeError(member, includeStack, includeFrames, profile, seen));
+    if (Array.isArray(serialized.data?.errors)) {
+      const { errors: _members, ...data } = serialized.data!;
+      serialized.data = data;
+    }
   }
 
   return serialized;
 }
 
+/**
+ * Options accepted by `deserialize()` and `fromJSON()`.
+ */
+export interface DeserializeOptions {
+  /**
+   * When true, data rejected by an error's `schema` is kept as-is instead of
+   * producing an `InvalidErrorDataError`.
+   */
+  lenient?: boolean;
+}
+
 /**
  * Deserializes a plain object back into an error instance.
  *
@@ -90,8 +199,16 @@ export function serialize(
  * error object. If a matching constructor is found, it creates an instance
  * of that error type; otherwise, it creates a generic Error.
  *
+ * Serialized causes and aggregate members are deserialized recursively with the
+ * same constructors.
+ *
+ * If the matching constructor declares a `schema` and the serialized data does
+ * not satisfy it, an `InvalidErrorDataError` is returned instead (unless
+ * `options.lenient` is set).
+ *
  * @param serialized - The serialized error object
- * @param constructors - Array of error constructors to try matching against
+ * @param constructors - Error constructors to try matching against, or a `defineErrors` registry
+ * @param options - Optional deserialization settings
  * @returns An error instance
  *
  * @example
@@ -111,35 +228,28 @@ export function serialize(
  * }
  * ```
  */
-export function deserialize<T extends Error>(
+export function deserialize(
   serialized: SerializedError,
-  constructors: ErrorCtor<T>[] = []
+  constructors: readonly ErrorCtor<any>[] | ErrorRegistry = [],
+  options: DeserializeOptions = {}
 ): Error {
+  const ctors: readonly ErrorCtor<any>[] = Array.isArray(constructors) ? constructors : Object.values(constructors);
+
   // Try to find a matching constructor
-  for (const ctor of constructors) {
+  for (const ctor of ctors) {
     // Check if the constructor has a static 'is' method (from defineError)
     if (typeof (ctor as any).is === 'function') {
       // Create a temporary object to test
       const testObj = { tag: serialized.tag };
       if ((ctor as any).is(testObj)) {
         // Found a match, reconstruct the error
-        const error = new ctor(serialized.message, serialized.data as any);
-        // Restore original stack if provided
-        if (serialized.stack) {
-          error.stack = serialized.stack;
-        }
-        return error;
+        return reconstruct(ctor, serialized, ctors, options);
       }
     }
 
     // Fallback: check by name
     if (ctor.name === serialized.tag || ctor.name === serialized.name) {
-      const error = new ctor(serialized.message, serialized.data as any);
-      // Restore original stack if provided
-      if (serialized.stack) {
-        error.stack = serialized.stack;
-      }
-      return error;
+      return reconstruct(ctor, serialized, ctors, options);
     }
   }
 
@@ -157,21 +267,86 @@ export function deserialize<T extends Error>(
     (error as any).tag = serialized.tag;
   }
 
+  // Restore the members of aggregate errors, as native AggregateError does
+  if (serialized.errors) {
+    (error as any).errors = serialized.errors.map(member => deserialize(member, constructors, options));
+    markAggregate(error);
+  }
+
+  // Restore metadata, so policies such as isRetryable() still apply
+  for (const key of metadataKeys) {
+    if (serialized[key] !== undefined) (error as any)[key] = serialized[key];
+  }
+
   // Restore stack if present
   if (serialized.stack) {
     error.stack = serialized.stack;
   }
 
+  restoreContext(error, serialized);
+  restoreCause(error, serialized, constructors, options);
+  return error;
+}
+
+/**
+ * Rebuilds an error with a known constructor, restoring its stack.
+ * Data rejected by the constructor's schema yields the `InvalidErrorDataError`.
+ */
+function reconstruct(
+  ctor: ErrorCtor<Error>,
+  serialized: SerializedError,
+  constructors: readonly ErrorCtor<any>[] | ErrorRegistry,
+  options: DeserializeOptions
+): Error {
+  // Defined aggregates keep their members in `data.errors`
+  const data = serialized.errors
+    ? { ...serialized.data, errors: serialized.errors.map(member => deserialize(member, constructors, options)) }
+    : serialized.data;
+  // A derived message is derived again, so that it follows the data when updated
+  const message = serialized.derivedMessage ? undefined : serialized.message;
+  let error: Error;
+  try {
+    error = options.lenient
+      ? constructLeniently(ctor, message, data)
+      : new ctor(message, data as any);
+  } catch (e) {
+    if (e instanceof InvalidErrorDataError) return e;
+    throw e;
+  }
+  // Restore original stack if provided
+  if (serialized.stack) {
+    error.stack = serialized.stack;
+  }
+  restoreContext(error, serialized);
+  restoreCause(error, serialized, constructors, options);
   return error;
 }
 
+/** Restores the serialized context, in place of the one of the current scope */
+function restoreContext(error: Error, serialized: SerializedError): void {
+  if (!serialized.context) return;
+  Object.defineProperty(error, 'context', { value: serialized.context, writable: true, configurable: true });
+}
+
+/** Deserializes the cause of a serialized error, if any, onto the rebuilt error */
+function restoreCause(
+  error: Error,
+  serialized: SerializedError,
+  constructors: readonly ErrorCtor<any>[] | ErrorRegistry,
+  options: DeserializeOptions
+): void {
+  if (!serialized.cause) return;
+  const cause = deserialize(serialized.cause, constructors, options);
+  Object.defineProperty(error, 'cause', { value: cause, writable: true, configurable: true });
+}
+
 /**
  * Converts an error to a JSON string.
  *
  * This is a convenience function that combines serialize() with JSON.stringify().
  *
  * @param error - The error to convert
- * @param includeStack - Whether to include the stack trace
+ * @param options - Whether to include the stack trace, or serialization options
  * @returns A JSON string representation of the error
  *
  * @example
@@ -181,8 +356,8 @@ export function deserialize<T extends Error>(
  * // '{"tag":"NetworkError","message":"Failed","name":"NetworkError","data":{"status":500,"url":"/api"},"stack":"..."}'
  * ```
  */
-export function toJSON(error: Error | unknown, includeStack: boolean = true): string {
-  return JSON.stringify(serialize(error, includeStack));
+export function toJSON(error: Error | unknown, options: boolean | SerializeOptions = true): string {
+  return JSON.stringify(serialize(error, options));
 }
 
 /**
@@ -191,7 +366,8 @@ export function toJSON(error: Error | unknown, includeStack: boolean = true): st
  * This is a convenience function that combines JSON.parse() with deserialize().
  *
  * @param json - The JSON string to parse
- * @param constructors - Array of error constructors to try matching against
+ * @param constructors - Error constructors to try matching against, or a `defineErrors` registry
+ * @param options - Optional deserialization settings
  * @returns An error instance
  *
  * @example
@@ -200,10 +376,11 @@ export function toJSON(error: Error | unknown, includeStack: boolean = true): st
  * const error = fromJSON(json, [NetworkError, ParseError]);
  * ```
  */
-export function fromJSON<T extends Error>(
+export function fromJSON(
   json: string,
-  constructors: ErrorCtor<T>[] = []
+  constructors: readonly ErrorCtor<any>[] | ErrorRegistry = [],
+  options: DeserializeOptions = {}
 ): Error {
   const serialized = JSON.parse(json) as SerializedError;
-  return deserialize(serialized, constructors);
+  return deserialize(serialized, constructors, options);
 }
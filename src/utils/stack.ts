@@ -0,0 +1,178 @@
+import type { StackCapture } from '../core/types';
+
+/**
+ * One frame of a parsed stack trace.
+ */
+export interface StackFrame {
+  /** The function name, as printed by the runtime (undefined for anonymous and top-level code) */
+  function?: string;
+  /** The file or URL, or the runtime's marker for native code (undefined for V8 builtins such as `Promise.all (index 0)`) */
+  file?: string;
+  /** The 1-based line number */
+  line?: number;
+  /** The 1-based column number */
+  column?: number;
+  /** Whether the frame belongs to the runtime itself (`node:` modules, native code) */
+  isInternal: boolean;
+}
+
+/** The stack trace extensions of V8 and JavaScriptCore */
+interface StackTraceApi {
+  stackTraceLimit?: number;
+  captureStackTrace?: (target: object, constructorOpt?: Function) => void;
+}
+
+const stackApi = Error as StackTraceApi;
+
+/** Indented V8 frames: `at fn (file:1:2)`, `at file:1:2`, `at async fn (file:1:2)` */
+const v8FramePattern = /^\s+at\s+(?:async\s+)?(.*)$/;
+
+/** SpiderMonkey and JavaScriptCore frames: `fn@file:1:2`, `@file:1:2`, `fn@[native code]` or `[native code]` */
+const atSignFramePattern = /^(?:(.*?)@)?(.*:\d+|\[native code\])$/;
+
+/** A location ending with `:line:column` or `:line` */
+const locationPattern = /^(.*?):(\d+)(?::(\d+))?$/;
+
+/** Files of the runtime itself */
+const internalFilePattern = /^(?:node:|internal\/|native\b|\[native code\])/;
+
+/** V8 locations naming no file: builtins (`native`) and the elements of `Promise.all()` and the like (`index 0`) */
+const builtinLocationPattern = /^(?:native|index \d+)$/;
+
+/**
+ * Parses the stack trace of an error into frames.
+ *
+ * Understands the V8 (Node, Chrome, Deno, Edge), SpiderMonkey (Firefox) and
+ * JavaScriptCore (Safari, Bun) formats. Lines that are not frames, such as the
+ * message header, are skipped.
+ *
+ * @param error - The error, or a raw stack string
+ * @returns The frames, innermost first (empty when there is no stack)
+ *
+ * @example
+ * ```typescript
+ * const [top] = stackFrames(error);
+ * // { function: 'fetchUser', file: '/app/src/api.ts', line: 12, column: 11, isInternal: false }
+ *
+ * const appFrames = stackFrames(error).filter(f => !f.isInternal && !f.file?.includes('node_modules'));
+ * ```
+ */
+export function stackFrames(error: unknown): StackFrame[] {
+  const stack = typeof error === 'string' ? error : (error as { stack?: unknown } | null)?.stack;
+  if (typeof stack !== 'string') return [];
+  const lines = stack.split('\n');
+  // V8 stacks start with the message, which may contain anything: only keep `at` lines
+  if (lines.some(line => v8FramePattern.test(line))) {
+    return lines.flatMap(line => {
+      const match = v8FramePattern.exec(line);
+      return match ? [parseV8Frame(match[1])] : [];
+    });
+  }
+  return lines.flatMap(line => {
+    const match = atSignFramePattern.exec(line.trim());
+    return match ? [frame(match[1], match[2])] : [];
+  });
+}
+
+/** Parses the part of a V8 frame after `at` */
+function parseV8Frame(text: string): StackFrame {
+  const call = /^(.*?) \((.*)\)$/.exec(text);
+  return call ? frame(call[1], call[2]) : frame(undefined, text);
+}
+
+/** Builds a frame from a function name and a location */
+function frame(name: string | undefined, location: string): StackFrame {
+  if (builtinLocationPattern.test(location)) {
+    return name && name !== '<anonymous>' ? { function: name, isInternal: true } : { isInternal: true };
+  }
+  const match = locationPattern.exec(location);
+  const file = match ? match[1] : location || undefined;
+  const result: StackFrame = {
+    isInternal: file === undefined || internalFilePattern.test(file),
+  };
+  if (name && name !== '<anonymous>') result.function = name;
+  if (file !== undefined) result.file = file;
+  if (match) {
+    result.line = Number(match[2]);
+    if (match[3] !== undefined) result.column = Number(match[3]);
+  }
+  return result;
+}
+
+/**
+ * Stops the runtime from collecting stack frames for errors that capture
+ * their stack themselves.
+ *
+ * @param mode - How the error being constructed captures its stack
+ * @returns The limit to give back to `resumeStackTrace()`
+ */
+export function suspendStackTrace(mode: StackCapture): number | undefined {
+  const limit = stackApi.stackTraceLimit;
+  if ((mode !== 'lazy' && mode !== 'none') || typeof limit !== 'number') return undefined;
+  stackApi.stackTraceLimit = 0;
+  return limit;
+}
+
+/**
+ * Restores the stack trace limit changed by `suspendStackTrace()`.
+ *
+ * @param limit - The value returned by `suspendStackTrace()`
+ */
+export function resumeStackTrace(limit: number | undefined): void {
+  if (limit !== undefined) stackApi.stackTraceLimit = limit;
+}
+
+/**
+ * Gives a newly constructed error the stack its class asks for.
+ *
+ * @param error - The error
+ * @param mode - How its class captures stacks
+ * @param ctor - The constructor called by user code, whose frames are trimmed
+ */
+export function captureStack(error: Error, mode: StackCapture, ctor: Function): void {
+  if (mode === 'trim') {
+    stackApi.captureStackTrace?.(error, ctor);
+    return;
+  }
+  if (mode !== 'lazy' && mode !== 'none') return;
+  // For 'lazy', the call sites are recorded now and only formatted on first read
+  const sites = mode === 'lazy' ? callSites(ctor) : undefined;
+  // Computed on first read, once child constructors have set the name
+  let stack: string | undefined;
+  Object.defineProperty(error, 'stack', {
+    get() {
+      stack ??= sites ? [header(error), ...rawFrames(sites.stack)].join('\n') : header(error);
+      return stack;
+    },
+    set(value: string) {
+      stack = value;
+    },
+    configurable: true,
+  });
+}
+
+/**
+ * Records the call sites below a constructor. V8 only formats the frames
+ * captured by `Error.captureStackTrace` when `stack` is read; other runtimes
+ * get a plain error, constructor frames included.
+ */
+function callSites(ctor: Function): { stack?: string } {
+  if (!stackApi.captureStackTrace) return new Error();
+  const sites = {};
+  stackApi.captureStackTrace(sites, ctor);
+  return sites;
+}
+
+/** The first line of a V8 stack */
+function header(error: Error): string {
+  return error.message ? `${error.name}: ${error.message}` : error.name;
+}
+
+/** The frame lines of a stack, in the runtime's own format */
+function rawFrames(stack: string | undefined): string[] {
+  if (!stack) return [];
+  const lines = stack.split('\n');
+  return lines.some(line => v8FramePattern.test(line))
+    ? lines.filter(line => v8FramePattern.test(line))
+    : lines.filter(line => atSignFramePattern.test(line.trim()));
+}
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
-import { defineError, matchError, matchErrorOf, hasCode, wrap, isErrorOf, isAnyOf, isAllOf, matchErrorAsync, matchErrorOfAsync, serialize, deserialize, toJSON, fromJSON } from '../src';
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { runInNewContext } from 'node:vm';
+import { inspect } from 'node:util';
+import { defineError, matchError, matchErrorOf, hasCode, wrap, isErrorOf, isAnyOf, isAllOf, matchErrorAsync, matchErrorOfAsync, serialize, deserialize, toJSON, fromJSON, UnexpectedError, wrapSync, wrapAsync, fromPromise, fromThrowable, InvalidErrorDataError, causeChain, rootCause, findCause, hasCause, isRetryable, severityOf, defineErrors, errorData, configure, isError, formatError, CollectedError, withErrorContext, currentErrorContext, stackFrames, updateError, defineAggregateError, flatten, groupByTag, P, createMatcher, NonExhaustiveMatchError, formatTrace } from '../src';
+import type { Result, Next, StandardSchemaV1, ErrorOf, Matcher, PatternNext, ExhaustiveThis, MatchTrace } from '../src';
 
 const Net = defineError('NetworkError')<{ status: number; url: string }>();
 const Auth = defineError('AuthError')<{ reason: 'expired' | 'forbidden' }>();
@@ -248,7 +251,7 @@ describe('isAnyOf', () => {
 
     if (isAnyOf(error, [Net, Auth])) {
       // TypeScript should know error is Net | Auth here
-      if (error instanceof Net) {
+      if (isErrorOf(Net)(error)) {
         const status: number = error.data.status;
         expect(status).toBe(500);
       }
@@ -287,7 +290,7 @@ describe('isAllOf', () => {
 
   it('can combine different guard types', () => {
     const isNetworkError = isErrorOf(Net);
-    const hasHighStatus = (e: unknown): e is Net =>
+    const hasHighStatus = (e: unknown): e is InstanceType<typeof Net> =>
       e instanceof Net && e.data.status >= 500;
 
     const serverError = new Net('error', { status: 500, url: '/api' });
@@ -628,4 +631,1467 @@ describe('wrap', () => {
     const r = await f();
     expect(r.ok).toBe(false);
   });
+
+  it('types the error channel with declared constructors', async () => {
+    const f = wrap(async (kind: string) => {
+      if (kind === 'net') throw new Net('down', { status: 503, url: '/x' });
+      if (kind === 'parse') throw new Parse('bad', { at: 'line 1' });
+      return kind;
+    }, { errors: [Net, Parse] });
+
+    const r = await f('net');
+    expectTypeOf(r).toEqualTypeOf<Result<string,
+      InstanceType<typeof Net> | InstanceType<typeof Parse> | UnexpectedError>>();
+    expect(r.ok).toBe(false);
+    if (!r.ok) {
+      const out = matchErrorOf(r.error)
+        .with(Net, e => `net ${e.data.status}`)
+        .with(Parse, e => `parse ${e.data.at}`)
+        .with(UnexpectedError, () => 'unexpected')
+        .exhaustive();
+      expect(out).toBe('net 503');
+    }
+  });
+
+  it('boxes undeclared errors into UnexpectedError', async () => {
+    const boom = new TypeError('boom');
+    const f = wrap(() => { throw boom; }, { errors: [Net] });
+    const r = await f();
+    expect(r.ok).toBe(false);
+    if (!r.ok) {
+      expect(r.error).toBeInstanceOf(UnexpectedError);
+      expect((r.error as UnexpectedError).cause).toBe(boom);
+      expect(r.error.message).toBe('boom');
+      expect(r.error.tag).toBe('UnexpectedError');
+    }
+
+    const thrownString = await wrap(() => { throw 'nope'; }, { errors: [] })();
+    expect(!thrownString.ok && thrownString.error.message).toBe('nope');
+  });
+
+  it('keeps the raw error when no errors are declared', async () => {
+    const boom = new TypeError('boom');
+    const r = await wrap(() => { throw boom; })();
+    expect(!r.ok && r.error).toBe(boom);
+  });
+});
+
+describe('sync wrapping', () => {
+  it('wrap returns a plain Result for sync functions', () => {
+    const safeParse = wrap((s: string) => JSON.parse(s) as { a: number });
+    const r = safeParse('{"a":1}');
+    expectTypeOf(r).toEqualTypeOf<Result<{ a: number }>>();
+    expect(r).toEqual({ ok: true, value: { a: 1 } });
+    expect(safeParse('{').ok).toBe(false);
+  });
+
+  it('wrap treats any-returning functions as sync', () => {
+    const r = wrap(JSON.parse)('[1]');
+    expect(r).toEqual({ ok: true, value: [1] });
+  });
+
+  it('wrap returns a Promise<Result> for async functions', async () => {
+    const f = wrap(async (n: number) => {
+      if (n < 0) throw new Net('negative', { status: 400, url: '/n' });
+      return n * 2;
+    }, { errors: [Net] });
+    const pending = f(2);
+    expect(pending).toBeInstanceOf(Promise);
+    expect(await pending).toEqual({ ok: true, value: 4 });
+    const failed = await f(-1);
+    expect(!failed.ok && failed.error).toBeInstanceOf(Net);
+  });
+
+  it('wrapSync never awaits', () => {
+    const parseAge = wrapSync((input: string) => {
+      const n = Number(input);
+      if (Number.isNaN(n)) throw new Parse('not a number', { at: input });
+      return n;
+    }, { errors: [Parse] });
+
+    expect(parseAge('42')).toEqual({ ok: true, value: 42 });
+    const r = parseAge('abc');
+    expect(!r.ok && r.error).toBeInstanceOf(Parse);
+  });
+
+  it('wrapAsync returns a Promise even when the function throws synchronously', async () => {
+    const getUser = wrapAsync((id: string): Promise<{ id: string }> => {
+      if (!id) throw new Parse('missing id', { at: 'id' });
+      return Promise.resolve({ id });
+    }, { errors: [Parse] });
+
+    const pending = getUser('');
+    expect(pending).toBeInstanceOf(Promise);
+    const failed = await pending;
+    expect(!failed.ok && failed.error).toBeInstanceOf(Parse);
+    const r = await getUser('42');
+    expectTypeOf(r).toEqualTypeOf<Result<{ id: string }, InstanceType<typeof Parse> | UnexpectedError>>();
+    expect(r).toEqual({ ok: true, value: { id: '42' } });
+    expect(await wrapAsync(() => { throw 'boom'; })()).toEqual({ ok: false, error: 'boom' });
+  });
+
+  it('fromThrowable captures a one-off call', () => {
+    expect(fromThrowable(() => 1)).toEqual({ ok: true, value: 1 });
+    const r = fromThrowable(() => { throw new Error('x'); }, { errors: [Net] });
+    expect(!r.ok && r.error).toBeInstanceOf(UnexpectedError);
+  });
+
+  it('fromPromise never rejects', async () => {
+    expect(await fromPromise(Promise.resolve('v'))).toEqual({ ok: true, value: 'v' });
+    const r = await fromPromise(Promise.reject(new Net('x', { status: 500, url: '/' })), { errors: [Net] });
+    expect(!r.ok && r.error).toBeInstanceOf(Net);
+  });
+});
+
+describe('extend', () => {
+  const DatabaseError = defineError('DatabaseError')<{ query: string }>();
+  const ConnectionError = DatabaseError.extend('ConnectionError')<{ host: string }>();
+  const QueryError = DatabaseError.extend('QueryError')();
+  const TimeoutError = ConnectionError.extend('TimeoutError')<{ ms: number }>();
+
+  it('merges child data with parent data', () => {
+    const e = new TimeoutError('too slow', { query: 'SELECT 1', host: 'db1', ms: 500 });
+    expectTypeOf(e.data).toEqualTypeOf<Readonly<{ query: string } & { host: string } & { ms: number }>>();
+    expect(e.data).toEqual({ query: 'SELECT 1', host: 'db1', ms: 500 });
+    expect(Object.isFrozen(e.data)).toBe(true);
+    expect(e.tag).toBe('TimeoutError');
+    expect(e.name).toBe('TimeoutError');
+    expect(e.message).toBe('too slow');
+    expect(e.lineage).toEqual(['TimeoutError', 'ConnectionError', 'DatabaseError']);
+    expect(new QueryError().message).toBe('QueryError');
+  });
+
+  it('recognises ancestors with instanceof and is()', () => {
+    const e = new ConnectionError('refused', { query: 'SELECT 1', host: 'db1' });
+    expect(e).toBeInstanceOf(ConnectionError);
+    expect(e).toBeInstanceOf(DatabaseError);
+    expect(e).toBeInstanceOf(Error);
+    expect(e).not.toBeInstanceOf(QueryError);
+    expect(DatabaseError.is(e)).toBe(true);
+    expect(ConnectionError.is(e)).toBe(true);
+    expect(QueryError.is(e)).toBe(false);
+    expect(TimeoutError.is(e)).toBe(false);
+    expect(DatabaseError.is({ tag: 'ConnectionError', lineage: ['ConnectionError', 'DatabaseError'] })).toBe(true);
+  });
+
+  it('matches children with a parent handler', () => {
+    const e = new TimeoutError('too slow', { query: 'q', host: 'h', ms: 1 });
+    const out = matchError(e)
+      .with(QueryError, () => 'query')
+      .with(DatabaseError, err => `database ${err.data.query}`)
+      .otherwise(() => 'other');
+    expect(out).toBe('database q');
+  });
+
+  it('treats the parent as covering its children for exhaustiveness', () => {
+    type DbError =
+      | InstanceType<typeof ConnectionError>
+      | InstanceType<typeof QueryError>
+      | InstanceType<typeof TimeoutError>;
+    type AppError = DbError | InstanceType<typeof Net>;
+
+    expectTypeOf<Next<AppError, typeof DatabaseError>>().toEqualTypeOf<InstanceType<typeof Net>>();
+    expectTypeOf<Next<AppError, typeof ConnectionError>>()
+      .toEqualTypeOf<InstanceType<typeof QueryError> | InstanceType<typeof Net>>();
+    expectTypeOf<Next<DbError, typeof QueryError>>()
+      .toEqualTypeOf<InstanceType<typeof ConnectionError> | InstanceType<typeof TimeoutError>>();
+
+    const e = new QueryError('bad', { query: 'q' });
+    const out = matchErrorOf<AppError>(e)
+      .with(DatabaseError, () => 'db')
+      .with(Net, () => 'net')
+      .exhaustive();
+    expect(out).toBe('db');
+  });
+});
+
+describe('schema validation', () => {
+  const statusSchema: StandardSchemaV1<unknown, { status: number }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        typeof (value as any)?.status === 'number'
+          ? { value: { status: (value as any).status } }
+          : { issues: [{ message: 'status must be a number', path: [{ key: 'status' }] }] },
+    },
+  };
+
+  it('infers the data type from the schema', () => {
+    const HttpError = defineError('HttpError', { schema: statusSchema })();
+    const Guarded = defineError('Guarded', {
+      schema: (d: unknown): d is { id: string } => typeof (d as any)?.id === 'string',
+    })();
+    expectTypeOf(new HttpError('x', { status: 1 }).data).toEqualTypeOf<Readonly<{ status: number }>>();
+    expectTypeOf(new Guarded('x', { id: 'a' }).data).toEqualTypeOf<Readonly<{ id: string }>>();
+  });
+
+  it('validates Standard Schema objects on construction', () => {
+    const HttpError = defineError('HttpError', { schema: statusSchema })();
+    expect(new HttpError('ok', { status: 500 }).data).toEqual({ status: 500 });
+
+    let thrown: unknown;
+    try {
+      new HttpError('bad', { status: '500' } as any);
+    } catch (e) {
+      thrown = e;
+    }
+    expect(thrown).toBeInstanceOf(InvalidErrorDataError);
+    const invalid = thrown as InstanceType<typeof InvalidErrorDataError>;
+    expect(invalid.data.tag).toBe('HttpError');
+    expect(invalid.data.issues).toEqual([{ message: 'status must be a number', path: ['status'] }]);
+    expect(invalid.data.received).toEqual({ status: '500' });
+  });
+
+  it('accepts predicates, parsers and assertion functions', () => {
+    const Predicate = defineError('Predicate', { schema: (d) => typeof (d as any).n === 'number' })<{ n: number }>();
+    const Parser = defineError('Parser', { schema: (d) => ({ n: Number((d as any).n) }) })();
+    const Asserted = defineError('Asserted', {
+      schema: (d) => { if (!(d as any).n) throw new Error('n is required'); },
+    })<{ n: number }>();
+
+    expect(() => new Predicate('x', { n: 'a' } as any)).toThrow(InvalidErrorDataError);
+    expect(new Parser('x', { n: '42' } as any).data).toEqual({ n: 42 });
+    expect(() => new Asserted('x', { n: 0 })).toThrow('n is required');
+    expect(new Asserted('x', { n: 1 }).data.n).toBe(1);
+  });
+
+  it('validates child data with the child schema', () => {
+    const Base = defineError('Base', { schema: statusSchema })();
+    const Child = Base.extend('Child', { schema: (d) => typeof (d as any).url === 'string' })<{ url: string }>();
+    expect(new Child('x', { status: 1, url: '/' }).data).toEqual({ status: 1, url: '/' });
+    expect(() => new Child('x', { status: 1 } as any)).toThrow(InvalidErrorDataError);
+    expect(() => new Child('x', { url: '/' } as any)).toThrow(InvalidErrorDataError);
+  });
+
+  it('keeps the parent fields when a child schema parses its own', () => {
+    const urlSchema: StandardSchemaV1<unknown, { url: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) =>
+          typeof (value as any)?.url === 'string'
+            ? { value: { url: (value as any).url.trim() } }
+            : { issues: [{ message: 'url must be a string' }] },
+      },
+    };
+    const Base = defineError('ParsedBase', { schema: statusSchema })();
+    const Child = Base.extend('ParsedChild', { schema: urlSchema })();
+    const GrandChild = Child.extend('ParsedGrandChild')<{ retry: boolean }>();
+    expect(new Child('x', { status: 1, url: ' /a ' }).data).toEqual({ status: 1, url: '/a' });
+    expect(new GrandChild('x', { status: 1, url: '/b', retry: true }).data).toEqual({ status: 1, url: '/b', retry: true });
+    expect(() => new Child('x', { url: '/' } as any)).toThrow('status must be a number');
+  });
+
+  it('keeps invalid data in lenient mode', () => {
+    const Lenient = defineError('Lenient', { schema: statusSchema, lenient: true })();
+    expect(new Lenient('x', { status: 'nope' } as any).data).toEqual({ status: 'nope' });
+  });
+
+  it('surfaces malformed payloads from deserialize', () => {
+    const HttpError = defineError('HttpError', { schema: statusSchema })();
+    const payload = { tag: 'HttpError', name: 'HttpError', message: 'bad', data: { status: 'oops' } };
+
+    const restored = deserialize(payload, [HttpError]);
+    expect(restored).toBeInstanceOf(InvalidErrorDataError);
+    expect((restored as InstanceType<typeof InvalidErrorDataError>).data.tag).toBe('HttpError');
+
+    const lenient = fromJSON(JSON.stringify(payload), [HttpError], { lenient: true });
+    expect(lenient).toBeInstanceOf(HttpError);
+    expect((lenient as any).data).toEqual({ status: 'oops' });
+
+    expect(() => new HttpError('still strict', { status: 'x' } as any)).toThrow(InvalidErrorDataError);
+  });
+
+  it('validates callable Standard Schemas as schemas', () => {
+    const callable = Object.assign((value: unknown) => ({ parsedBy: 'call', value }), statusSchema);
+    const HttpError = defineError('CallableSchemaError', { schema: callable })();
+    expect(new HttpError('ok', { status: 500 }).data).toEqual({ status: 500 });
+    expect(() => new HttpError('bad', { status: '500' } as any)).toThrow(InvalidErrorDataError);
+
+    const { CallableSpecError } = defineErrors({ CallableSpecError: callable });
+    expect(new CallableSpecError('ok', { status: 404 }).data).toEqual({ status: 404 });
+    expect(() => new CallableSpecError('bad', {} as any)).toThrow('status must be a number');
+  });
+
+  it('rejects asynchronous schemas', () => {
+    const AsyncSchema = defineError('AsyncSchema', {
+      schema: { '~standard': { version: 1, vendor: 'test', validate: async (value: unknown) => ({ value }) } },
+    })();
+    expect(() => new AsyncSchema('x', {})).toThrow(TypeError);
+  });
+});
+
+describe('message templates', () => {
+  const HttpError = defineError('HttpError', { message: 'HTTP {status} for {url}' })<{ status: number; url: string }>();
+
+  it('derives the message from the data', () => {
+    const e = new HttpError({ status: 500, url: '/api' });
+    expect(e.message).toBe('HTTP 500 for /api');
+    expect(e.data).toEqual({ status: 500, url: '/api' });
+  });
+
+  it('accepts template functions and nested placeholders', () => {
+    const Fn = defineError('Fn', { message: (d) => `user ${d.id} missing` })<{ id: string }>();
+    const Nested = defineError('Nested', { message: 'at {pos.line}:{pos.col} ({unknown})' })<{ pos: { line: number; col: number } }>();
+    expect(new Fn({ id: '42' }).message).toBe('user 42 missing');
+    expect(new Nested({ pos: { line: 3, col: 7 } }).message).toBe('at 3:7 ({unknown})');
+  });
+
+  it('lets explicit messages override the template', () => {
+    expect(new HttpError('Gateway down', { status: 502, url: '/' }).message).toBe('Gateway down');
+  });
+
+  it('is inherited by child classes unless overridden', () => {
+    const NotFound = HttpError.extend('NotFound')<{ resource: string }>();
+    const Gone = HttpError.extend('Gone', { message: '{resource} is gone' })<{ resource: string }>();
+    const Plain = defineError('Plain')<{ n: number }>();
+
+    expect(new NotFound({ status: 404, url: '/u/1', resource: 'user' }).message).toBe('HTTP 404 for /u/1');
+    expect(new Gone({ status: 410, url: '/u/1', resource: 'user' }).message).toBe('user is gone');
+    expect(new Plain({ n: 1 }).message).toBe('Plain');
+  });
+
+  it('round-trips derived and explicit messages through serialization', () => {
+    const derived = deserialize(serialize(new HttpError({ status: 500, url: '/a' })), [HttpError]);
+    const explicit = fromJSON(toJSON(new HttpError('custom', { status: 500, url: '/a' })), [HttpError]);
+
+    expect(derived).toBeInstanceOf(HttpError);
+    expect(derived.message).toBe('HTTP 500 for /a');
+    expect(explicit.message).toBe('custom');
+    expect((explicit as InstanceType<typeof HttpError>).data).toEqual({ status: 500, url: '/a' });
+  });
+});
+
+describe('cause chains', () => {
+  const DbError = defineError('DbError')<{ query: string }>();
+  const ServiceError = defineError('ServiceError')<{ op: string }>();
+
+  const socket = new Error('ECONNRESET');
+  const db = new DbError('Query failed', { query: 'SELECT 1' }, { cause: socket });
+  const service = new ServiceError({ op: 'checkout' }, { cause: db });
+
+  it('accepts and types the cause option', () => {
+    expect(db.cause).toBe(socket);
+    expect(service.cause).toBe(db);
+    expect(Object.keys(db)).not.toContain('cause');
+    expectTypeOf(service.cause).toEqualTypeOf<InstanceType<typeof DbError> & { readonly cause: Error }>();
+    expect(new DbError('no cause', { query: '' })).not.toHaveProperty('cause');
+  });
+
+  it('passes the cause through child classes', () => {
+    const Timeout = DbError.extend('Timeout')();
+    expect(new Timeout('slow', { query: 'x' }, { cause: socket }).cause).toBe(socket);
+  });
+
+  it('walks the chain', () => {
+    expect(causeChain(service)).toEqual([service, db, socket]);
+    expect(rootCause(service)).toBe(socket);
+    expect(rootCause(socket)).toBe(socket);
+    expect(findCause(service, DbError)?.data.query).toBe('SELECT 1');
+    expect(findCause(db, DbError)).toBeUndefined();
+    expect(hasCause(DbError)(service)).toBe(true);
+    expect(hasCause(ServiceError)(service)).toBe(false);
+  });
+
+  it('stops at cyclic causes', () => {
+    const a = new Error('a');
+    const b = new Error('b');
+    Object.defineProperty(a, 'cause', { value: b });
+    Object.defineProperty(b, 'cause', { value: a });
+    expect(causeChain(a)).toEqual([a, b]);
+    expect(serialize(a).cause?.cause).toBeUndefined();
+  });
+
+  it('serializes and deserializes causes recursively', () => {
+    const payload = serialize(service, false);
+    expect(payload.cause?.tag).toBe('DbError');
+    expect(payload.cause?.cause?.message).toBe('ECONNRESET');
+
+    const restored = fromJSON(JSON.stringify(payload), [DbError, ServiceError]);
+    expect(restored).toBeInstanceOf(ServiceError);
+    const restoredDb = (restored as InstanceType<typeof ServiceError>).cause;
+    expect(restoredDb).toBeInstanceOf(DbError);
+    expect((restoredDb as InstanceType<typeof DbError>).data.query).toBe('SELECT 1');
+    expect(rootCause(restored)).toMatchObject({ message: 'ECONNRESET' });
+  });
+
+  it('keeps the cause of UnexpectedError across serialization', () => {
+    const boxed = new UnexpectedError(new DbError('down', { query: 'q' }));
+    expect(boxed.cause).toBeInstanceOf(DbError);
+    const restored = deserialize(serialize(boxed), [UnexpectedError, DbError]);
+    expect(restored).toBeInstanceOf(UnexpectedError);
+    expect((restored as UnexpectedError).cause).toBeInstanceOf(DbError);
+  });
+
+  it('matches on causes', () => {
+    const out = matchError(service)
+      .with(hasCause(DbError), () => 'storage')
+      .otherwise(() => 'other');
+    expect(out).toBe('storage');
+  });
+});
+
+describe('error metadata', () => {
+  const RateLimited = defineError('RateLimited', {
+    code: 'E_RATE_LIMITED',
+    httpStatus: 429,
+    severity: 'warning',
+    retryable: true,
+    docsUrl: 'https://example.com/errors/rate-limited',
+  })<{ retryAfter: number }>();
+  const Plain = defineError('Plain')();
+
+  it('exposes metadata as typed statics and on instances', () => {
+    expect(RateLimited.code).toBe('E_RATE_LIMITED');
+    expect(RateLimited.httpStatus).toBe(429);
+    expectTypeOf(RateLimited.httpStatus).toEqualTypeOf<429>();
+    expectTypeOf(Plain.code).toEqualTypeOf<undefined>();
+
+    const e = new RateLimited('Slow down', { retryAfter: 30 });
+    expect(e.severity).toBe('warning');
+    expect(e.docsUrl).toBe('https://example.com/errors/rate-limited');
+    expectTypeOf(e.code).toEqualTypeOf<'E_RATE_LIMITED'>();
+    expect(Object.keys(e)).not.toContain('code');
+    expect(hasCode('E_RATE_LIMITED')(e)).toBe(true);
+  });
+
+  it('inherits metadata in child classes unless overridden', () => {
+    const QuotaExceeded = RateLimited.extend('QuotaExceeded', { retryable: false, code: 'E_QUOTA' })();
+    expect(QuotaExceeded.httpStatus).toBe(429);
+    expect(QuotaExceeded.retryable).toBe(false);
+    expectTypeOf(QuotaExceeded.code).toEqualTypeOf<'E_QUOTA'>();
+    expectTypeOf(QuotaExceeded.httpStatus).toEqualTypeOf<429>();
+    expect(new QuotaExceeded('x', { retryAfter: 0 }).code).toBe('E_QUOTA');
+  });
+
+  it('drives cross-cutting policies', () => {
+    expect(isRetryable(new RateLimited('x', { retryAfter: 1 }))).toBe(true);
+    expect(isRetryable(new Plain())).toBe(false);
+    expect(isRetryable('nope')).toBe(false);
+    expect(severityOf(new RateLimited('x', { retryAfter: 1 }))).toBe('warning');
+    expect(severityOf(new Plain())).toBeUndefined();
+  });
+
+  it('includes metadata in serialized errors', () => {
+    const payload = serialize(new RateLimited('x', { retryAfter: 1 }), false);
+    expect(payload).toMatchObject({ code: 'E_RATE_LIMITED', httpStatus: 429, severity: 'warning', retryable: true });
+    expect(serialize(new Plain(), false)).not.toHaveProperty('code');
+
+    const unknown = deserialize(payload);
+    expect(isRetryable(unknown)).toBe(true);
+    expect(severityOf(unknown)).toBe('warning');
+  });
+});
+
+describe('defineErrors', () => {
+  const statusSchema: StandardSchemaV1<unknown, { status: number }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        typeof (value as any)?.status === 'number'
+          ? { value: value as { status: number } }
+          : { issues: [{ message: 'status must be a number', path: ['status'] }] },
+    },
+  };
+  const Existing = defineError('Existing')<{ id: string }>();
+
+  const AppErrors = defineErrors({
+    NetworkError: errorData<{ status: number; url: string }>(),
+    HttpError: statusSchema,
+    RateLimited: { httpStatus: 429, retryable: true, message: 'Slow down' },
+    Existing,
+  });
+  type AppError = ErrorOf<typeof AppErrors>;
+
+  it('builds one class per member, tagged with its key', () => {
+    const e = new AppErrors.NetworkError('down', { status: 503, url: '/api' });
+    expect(e.tag).toBe('NetworkError');
+    expect(AppErrors.HttpError.tag).toBe('HttpError');
+    expect(AppErrors.Existing).toBe(Existing);
+    expect(AppErrors.RateLimited.httpStatus).toBe(429);
+    expect(new AppErrors.RateLimited().message).toBe('Slow down');
+    expect(() => new AppErrors.HttpError('x', { status: 'x' } as any)).toThrow(InvalidErrorDataError);
+    expect(Object.isFrozen(AppErrors)).toBe(true);
+
+    expectTypeOf(e.data).toEqualTypeOf<Readonly<{ status: number; url: string }>>();
+    expectTypeOf(AppErrors.RateLimited.httpStatus).toEqualTypeOf<429>();
+    expectTypeOf<AppError['tag']>().toEqualTypeOf<'NetworkError' | 'HttpError' | 'RateLimited' | 'Existing'>();
+  });
+
+  it('rejects duplicate tags', () => {
+    expect(() => defineErrors({ Existing, Alias: Existing })).toThrow('Duplicate error tag "Existing"');
+  });
+
+  it('is accepted by deserialize and fromJSON', () => {
+    const restored = deserialize(serialize(new AppErrors.HttpError('x', { status: 500 })), AppErrors);
+    expect(restored).toBeInstanceOf(AppErrors.HttpError);
+    expect(fromJSON(toJSON(new Existing('x', { id: '1' })), AppErrors)).toBeInstanceOf(Existing);
+  });
+
+  it('gives matchErrorOf the union of its errors', () => {
+    const e: unknown = new AppErrors.RateLimited();
+    const out = matchErrorOf(e, AppErrors)
+      .with(AppErrors.NetworkError, () => 'network')
+      .with(AppErrors.HttpError, () => 'http')
+      .with(AppErrors.RateLimited, () => 'rate')
+      .with(Existing, () => 'existing')
+      .exhaustive();
+    expect(out).toBe('rate');
+  });
+});
+
+describe('cross-bundle identity', () => {
+  async function loadCopy(): Promise<typeof import('../src')> {
+    vi.resetModules();
+    return import('../src');
+  }
+
+  it('matches errors created by another copy of the package', async () => {
+    const copy = await loadCopy();
+    const foreign = copy.wrapSync(() => { throw 'boom'; }, { errors: [] })();
+    const error = (foreign as { ok: false; error: unknown }).error;
+
+    expect(error instanceof UnexpectedError).toBe(false);
+    expect(isErrorOf(UnexpectedError)(error)).toBe(true);
+    expect(isAnyOf(error, [UnexpectedError])).toBe(true);
+    expect(matchError(error).with(UnexpectedError, () => 'unexpected').otherwise(() => 'other')).toBe('unexpected');
+    expect(matchError(error).withAny([UnexpectedError], () => 'any').otherwise(() => 'other')).toBe('any');
+    expect(matchError(error).withNot(UnexpectedError, () => 'not').otherwise(() => 'other')).toBe('other');
+  });
+
+  it('recognises descendants through the brand', async () => {
+    const copy = await loadCopy();
+    const ForeignBase = copy.defineError('ForeignBase')();
+    const ForeignChild = ForeignBase.extend('ForeignChild')();
+    const LocalBase = defineError('ForeignBase')();
+
+    expect(isErrorOf(LocalBase)(new ForeignChild())).toBe(true);
+    expect(isErrorOf(ForeignChild)(new LocalBase())).toBe(false);
+  });
+
+  it('does not take parent instances for hand-written subclasses', () => {
+    class Special extends Net {}
+    const net = new Net('x', { status: 500, url: '/' });
+    expect(isErrorOf(Special)(net)).toBe(false);
+    expect(isErrorOf(Special)(new Special('x', { status: 500, url: '/' }))).toBe(true);
+    expect(matchErrorOf<Err>(net).with(Special, () => 'special').otherwise(() => 'other')).toBe('other');
+    expect(createMatcher<Err>().with(Special, () => 'special').otherwise(() => 'other')(net)).toBe('other');
+    expect(createMatcher<Err>().with(Special, () => 'special').otherwise(() => 'other')(new Special('x', { status: 500, url: '/' })))
+      .toBe('special');
+  });
+
+  it('does not brand plain errors', () => {
+    const Local = defineError('Local')();
+    const fake = Object.assign(new Error('x'), { tag: 'Local' });
+    expect(isErrorOf(Local)(fake)).toBe(false);
+    expect(isErrorOf(Error)(new Local())).toBe(true);
+  });
+
+  it('serializes errors from another realm', () => {
+    const foreign = runInNewContext('new TypeError("from vm")');
+    expect(foreign instanceof Error).toBe(false);
+    expect(isError(foreign)).toBe(true);
+    expect(serialize(foreign, false)).toMatchObject({ tag: 'TypeError', message: 'from vm' });
+  });
+
+  it('applies the duplicate tag policy', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const Parent = defineError('DupParent')();
+      defineError('DupChild')();
+      Parent.extend('DupChild')();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('"DupChild"');
+
+      defineError('DupChild')(); // same lineage as the first definition: a redefinition, not a conflict
+      const conflicts: string[] = [];
+      configure({ onDuplicateTag: (c) => conflicts.push(c.tag) });
+      Parent.extend('DupChild')();
+      expect(conflicts).toEqual(['DupChild']);
+
+      configure({ onDuplicateTag: 'throw' });
+      expect(() => defineError('DupChild')()).toThrow(TypeError);
+    } finally {
+      configure({ onDuplicateTag: 'warn' });
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('redaction profiles', () => {
+  const AuthError = defineError('AuthError', {
+    sensitive: { token: 'omit', email: 'hash', 'request.body': 'redact' },
+    internal: ['userId'],
+  })<{ token: string; email: string; userId: string; request: { url: string; body: string } }>();
+  const data = { token: 't0k', email: 'a@b.c', userId: 'u1', request: { url: '/login', body: 'password=x' } };
+
+  it('keeps everything by default and with the debug profile', () => {
+    const e = new AuthError('denied', data);
+    expect(serialize(e).data).toEqual(data);
+    expect(serialize(e, { profile: 'debug' }).stack).toBeDefined();
+  });
+
+  it('hides sensitive fields for internal consumers', () => {
+    const payload = serialize(new AuthError('denied', data), { profile: 'internal' });
+    expect(payload.data).not.toHaveProperty('token');
+    expect(payload.data?.email).toMatch(/^\[hash:[0-9a-f]{14}\]$/);
+    expect(payload.data?.request).toEqual({ url: '/login', body: '[REDACTED]' });
+    expect(payload.data?.userId).toBe('u1');
+    expect(payload.stack).toBeDefined();
+  });
+
+  it('also omits internal fields and the stack for the public', () => {
+    const e = new AuthError('denied', data);
+    const payload = JSON.parse(toJSON(e, { profile: 'public' }));
+    expect(payload.data).toEqual({ email: expect.stringMatching(/^\[hash:/), request: { url: '/login', body: '[REDACTED]' } });
+    expect(payload.stack).toBeUndefined();
+    expect(e.data).toEqual(data);
+  });
+
+  it('derives templated messages again from the hidden data', () => {
+    const TokenError = defineError('TokenError', {
+      message: 'bad token {token} for {userId}',
+      sensitive: ['token'],
+      internal: ['userId'],
+    })<{ token: string; userId: string }>();
+    const e = new TokenError({ token: 's3cr3t', userId: 'u1' });
+
+    expect(serialize(e, { profile: 'public' }).message).toBe('bad token [REDACTED] for [REDACTED]');
+    expect(serialize(e, { profile: 'internal' }).message).toBe('bad token [REDACTED] for u1');
+    expect(serialize(e).message).toBe('bad token s3cr3t for u1');
+    // Messages given explicitly are not rewritten
+    expect(serialize(new TokenError('denied', { token: 's3cr3t', userId: 'u1' }), { profile: 'public' }).message).toBe('denied');
+  });
+
+  it('derives templated messages again after a round trip', () => {
+    const TokenError = defineError('RoundTripTokenError', {
+      message: 'HTTP {status} token {token}',
+      sensitive: ['token'],
+    })<{ status: number; token: string }>();
+    const payload = serialize(new TokenError({ status: 500, token: 'abc' }));
+    expect(payload.derivedMessage).toBe(true);
+
+    const restored = deserialize(payload, [TokenError]) as InstanceType<typeof TokenError>;
+    expect(restored.message).toBe('HTTP 500 token abc');
+    expect(restored.with({ data: { status: 503 } }).message).toBe('HTTP 503 token abc');
+    expect(serialize(restored, { profile: 'public' }).message).toBe('HTTP 500 token [REDACTED]');
+
+    // Redacted payloads and explicit messages are restored as they are
+    expect(serialize(restored, { profile: 'public' })).not.toHaveProperty('derivedMessage');
+    const explicit = deserialize(serialize(new TokenError('denied', { status: 401, token: 'abc' })), [TokenError]);
+    expect(serialize(explicit)).not.toHaveProperty('derivedMessage');
+    expect(explicit.message).toBe('denied');
+  });
+
+  it('hashes equal values identically', () => {
+    const a = serialize(new AuthError('x', data), { profile: 'internal' }).data?.email;
+    const b = serialize(new AuthError('y', { ...data, token: 'other' }), { profile: 'internal' }).data?.email;
+    const c = serialize(new AuthError('z', { ...data, email: 'x@y.z' }), { profile: 'internal' }).data?.email;
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it('hashes with the configured keyed hash', () => {
+    configure({ redactionHash: text => `keyed:${text.length}` });
+    try {
+      expect(serialize(new AuthError('x', data), { profile: 'internal' }).data?.email).toBe('[hash:keyed:7]');
+    } finally {
+      configure({ redactionHash: undefined });
+    }
+    expect(serialize(new AuthError('x', data), { profile: 'internal' }).data?.email).toMatch(/^\[hash:[0-9a-f]{14}\]$/);
+  });
+
+  it('inherits rules in child classes and applies them to causes', () => {
+    const Expired = AuthError.extend('Expired', { sensitive: ['refreshToken'] })<{ refreshToken: string }>();
+    const Wrapper = defineError('Wrapper')();
+    const inner = new Expired('expired', { ...data, refreshToken: 'r' });
+    const payload = serialize(new Wrapper('failed', {}, { cause: inner }), { profile: 'public' });
+
+    expect(payload.cause?.data).toMatchObject({ refreshToken: '[REDACTED]', request: { body: '[REDACTED]' } });
+    expect(payload.cause?.data).not.toHaveProperty('token');
+    expect(payload.cause?.data).not.toHaveProperty('userId');
+    expect(payload.cause?.stack).toBeUndefined();
+  });
+});
+
+describe('formatError', () => {
+  const HttpError = defineError('HttpError', { code: 'E_HTTP', retryable: true })<{ status: number; url: string }>();
+  const DbError = defineError('DbError')<{ query: string }>();
+
+  it('renders tag, message, metadata and data', () => {
+    const out = formatError(new HttpError('Request failed', { status: 503, url: '/api' }), { colors: false, frames: 'none' });
+    expect(out.split('\n')).toEqual([
+      'HttpError: Request failed',
+      '  code E_HTTP · retryable true',
+      '  │ status  503',
+      '  │ url     /api',
+    ]);
+  });
+
+  it('renders the cause and aggregate tree', () => {
+    const db = new DbError('Timeout', { query: 'SELECT 1' }, { cause: new Error('ECONNRESET') });
+    const collected = new CollectedError('2 operations failed', { errors: [db, 'boom'] });
+    const out = formatError(collected, { colors: false, frames: 'none' });
+    expect(out.split('\n')).toEqual([
+      'CollectedError: 2 operations failed',
+      '  ↳ 2 aggregated errors',
+      '    1. DbError: Timeout',
+      '         │ query  SELECT 1',
+      '         ↳ caused by Error: ECONNRESET',
+      '    2. boom',
+    ]);
+  });
+
+  it('wraps long values to the width', () => {
+    const e = new DbError('x', { query: 'SELECT a, b, c FROM some_table WHERE id = 1 AND status = 2' });
+    const lines = formatError(e, { colors: false, frames: 'none', width: 40 }).split('\n');
+    expect(lines.every(line => line.length <= 40)).toBe(true);
+    expect(lines.slice(1)).toEqual([
+      '  │ query  SELECT a, b, c FROM',
+      '  │        some_table WHERE id = 1 AND',
+      '  │        status = 2',
+    ]);
+  });
+
+  it('filters stack frames', () => {
+    const e = new DbError('x', { query: 'q' });
+    e.stack = [
+      'DbError: x',
+      '    at run (/app/src/run.ts:1:1)',
+      '    at dep (/app/node_modules/dep/index.js:2:2)',
+      '    at async Promise.all (index 0)',
+      '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+    ].join('\n');
+
+    const app = formatError(e, { colors: false }).split('\n');
+    expect(app).toContain('  at run (/app/src/run.ts:1:1)');
+    expect(app).toContain('  … 3 frames hidden');
+    expect(formatError(e, { colors: false, frames: 'all' })).toContain('node_modules/dep');
+    expect(formatError(e, { colors: false, filterFrame: f => !f.includes('run.ts') })).not.toContain('run.ts');
+  });
+
+  it('uses ANSI colours only when asked', () => {
+    const e = new DbError('x', { query: 'q' });
+    expect(formatError(e, { colors: true })).toContain('\x1b[');
+    expect(formatError(e, { colors: false })).not.toContain('\x1b[');
+  });
+
+  it('is used by util.inspect', () => {
+    const e = new HttpError('Request failed', { status: 500, url: '/' });
+    expect(inspect(e)).toContain('HttpError: Request failed');
+    expect(inspect(e)).toContain('│ status  500');
+  });
+
+  it('hides sensitive fields and the messages derived from them', () => {
+    const TokenError = defineError('FormattedTokenError', {
+      message: 'HTTP {status} token {token}',
+      sensitive: ['token'],
+      internal: ['userId'],
+    })<{ status: number; token: string; userId: string }>();
+    const e = new TokenError({ status: 500, token: 'abc', userId: 'u1' });
+
+    expect(inspect(e)).not.toContain('abc');
+    expect(formatError(e, { colors: false, frames: 'none' }).split('\n')).toEqual([
+      'FormattedTokenError: HTTP 500 token [REDACTED]',
+      '  │ status  500',
+      '  │ token   [REDACTED]',
+      '  │ userId  u1',
+    ]);
+    expect(formatError(e, { colors: false, frames: 'none', profile: 'public' })).not.toContain('userId');
+    expect(formatError(e, { colors: false, frames: 'none', profile: 'debug' })).toContain('HTTP 500 token abc');
+  });
+});
+
+describe('error context', () => {
+  const JobError = defineError('JobError')<{ job: string }>();
+
+  it('attaches the active context to defined errors', () => {
+    const e = withErrorContext({ requestId: 'r1' }, () => new JobError('failed', { job: 'sync' }));
+    expect(e.context).toEqual({ requestId: 'r1' });
+    expect(Object.keys(e)).not.toContain('context');
+    expect(new JobError('failed', { job: 'sync' }).context).toBeUndefined();
+  });
+
+  it('merges nested scopes', () => {
+    const e = withErrorContext({ requestId: 'r1', userId: 'a' }, () =>
+      withErrorContext({ userId: 'b' }, () => {
+        expect(currentErrorContext()).toEqual({ requestId: 'r1', userId: 'b' });
+        return new JobError('failed', { job: 'sync' });
+      })
+    );
+    expect(e.context).toEqual({ requestId: 'r1', userId: 'b' });
+    expect(currentErrorContext()).toBeUndefined();
+  });
+
+  it('follows the context across await', async () => {
+    const e = await withErrorContext({ requestId: 'r2' }, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return new JobError('failed', { job: 'sync' });
+    });
+    expect(e.context).toEqual({ requestId: 'r2' });
+  });
+
+  it('warns once when the context cannot follow await', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const env = (globalThis as unknown as { process: { getBuiltinModule?: unknown } }).process;
+    const { getBuiltinModule } = env;
+    try {
+      // As on Node 18, where the default store only follows synchronous code
+      env.getBuiltinModule = undefined;
+      configure({ contextStore: undefined });
+      expect(withErrorContext({ requestId: 'r6' }, () => currentErrorContext())).toEqual({ requestId: 'r6' });
+      expect(warn).not.toHaveBeenCalled();
+
+      const later = () => withErrorContext({ requestId: 'r7' }, async () => {
+        await Promise.resolve();
+        return currentErrorContext();
+      });
+      expect(await later()).toBeUndefined();
+      expect(await later()).toBeUndefined();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('configure({ contextStore })');
+    } finally {
+      env.getBuiltinModule = getBuiltinModule;
+      configure({ contextStore: undefined });
+      warn.mockRestore();
+    }
+  });
+
+  it('attaches the context to failures captured by wrap()', async () => {
+    const r1 = withErrorContext({ requestId: 'r3' }, () => wrapSync(() => { throw new Error('boom'); })());
+    expect(!r1.ok && (r1.error as Error & { context?: unknown }).context).toEqual({ requestId: 'r3' });
+
+    const r2 = await withErrorContext({ requestId: 'r4' }, () => wrap(async () => { throw 'boom'; }, { errors: [] })());
+    expect(!r2.ok && r2.error.context).toEqual({ requestId: 'r4' });
+  });
+
+  it('keeps the context an error was constructed with', () => {
+    const e = withErrorContext({ step: 'inner' }, () => new JobError('failed', { job: 'sync' }));
+    const r = withErrorContext({ step: 'outer' }, () => fromThrowable(() => { throw e; }));
+    expect(!r.ok && (r.error as typeof e).context).toEqual({ step: 'inner' });
+  });
+
+  it('is serialized and restored', () => {
+    const e = withErrorContext({ requestId: 'r5' }, () => new JobError('failed', { job: 'sync' }));
+    const serialized = serialize(e, { profile: 'public' });
+    expect(serialized.context).toEqual({ requestId: 'r5' });
+
+    expect((deserialize(serialized, [JobError]) as InstanceType<typeof JobError>).context).toEqual({ requestId: 'r5' });
+    expect((deserialize(serialized) as Error & { context?: unknown }).context).toEqual({ requestId: 'r5' });
+    expect(serialize(new JobError('failed', { job: 'sync' }))).not.toHaveProperty('context');
+  });
+});
+
+describe('stack frames', () => {
+  it('parses V8 stacks', () => {
+    const stack = [
+      'Error: failed',
+      'at the second line of the message',
+      '    at fetchUser (/app/src/api.ts:12:11)',
+      '    at async Promise.all (index 0)',
+      '    at Array.map (native)',
+      '    at /app/src/main.ts:3:1',
+      '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+    ].join('\n');
+    expect(stackFrames(stack)).toEqual([
+      { function: 'fetchUser', file: '/app/src/api.ts', line: 12, column: 11, isInternal: false },
+      { function: 'Promise.all', isInternal: true },
+      { function: 'Array.map', isInternal: true },
+      { file: '/app/src/main.ts', line: 3, column: 1, isInternal: false },
+      { function: 'process.processTicksAndRejections', file: 'node:internal/process/task_queues', line: 95, column: 5, isInternal: true },
+    ]);
+  });
+
+  it('parses SpiderMonkey and JavaScriptCore stacks', () => {
+    const stack = [
+      'fetchUser@https://app.test/api.js:12:11',
+      '@https://app.test/main.js:3:1',
+      'map@[native code]',
+      '[native code]',
+    ].join('\n');
+    expect(stackFrames(stack)).toEqual([
+      { function: 'fetchUser', file: 'https://app.test/api.js', line: 12, column: 11, isInternal: false },
+      { file: 'https://app.test/main.js', line: 3, column: 1, isInternal: false },
+      { function: 'map', file: '[native code]', isInternal: true },
+      { file: '[native code]', isInternal: true },
+    ]);
+  });
+
+  it('reads the stack of errors', () => {
+    const [top] = stackFrames(new Error('x'));
+    expect(top.file).toContain('index.test.ts');
+    expect(stackFrames('Invalid address a@b.c')).toEqual([]);
+    expect(stackFrames(undefined)).toEqual([]);
+  });
+
+  it('captures no stack for control-flow errors', () => {
+    const Stop = defineError('Stop', { stack: 'none' })<{ step: number }>();
+    const Halt = Stop.extend('Halt')();
+    expect(new Stop('done', { step: 1 }).stack).toBe('Stop: done');
+    expect(new Halt('done', { step: 1 }).stack).toBe('Halt: done');
+    expect(stackFrames(new Halt('done', { step: 1 }))).toEqual([]);
+  });
+
+  it('captures the stack lazily', () => {
+    const Miss = defineError('CacheMiss', { stack: 'lazy' })();
+    const createMiss = () => new Miss('not cached');
+    const e = createMiss();
+    const readStack = () => e.stack!;
+    const stack = readStack();
+    expect(stack.split('\n')[0]).toBe('CacheMiss: not cached');
+    // The trace starts where the error was created, not where its stack is read
+    expect(stack).toContain('createMiss');
+    expect(stack).not.toContain('readStack');
+    expect(stackFrames(e)[0].function).toContain('createMiss');
+    expect(e.stack).toBe(stack);
+    e.stack = 'replaced';
+    expect(e.stack).toBe('replaced');
+  });
+
+  it('trims the constructor frames', () => {
+    const Trimmed = defineError('TrimmedError', { stack: 'trim' })();
+    const Child = Trimmed.extend('TrimmedChild')();
+    const frames = stackFrames(new Child('x'));
+    expect(frames[0].file).toContain('index.test.ts');
+    expect(frames.some(f => f.function?.includes('TE'))).toBe(false);
+  });
+
+  it('adds parsed frames to serialized errors on request', () => {
+    const e = new Net('x', { status: 500, url: '/' });
+    expect(serialize(e).frames).toBeUndefined();
+    expect(serialize(e, { frames: true }).frames).toEqual(stackFrames(e));
+    expect(serialize(e, { frames: true, includeStack: false }).frames).toBeUndefined();
+  });
+});
+
+describe('updateError', () => {
+  const FetchError = defineError('PatchedFetchError', { httpStatus: 502 })<{ url: string; retryCount?: number }>();
+  const TimeoutError = FetchError.extend('PatchedTimeoutError')<{ ms: number }>();
+
+  it('copies an error with patched data', () => {
+    const e = new FetchError('Request failed', { url: '/api' });
+    const copy = e.with({ data: { retryCount: 2 } });
+
+    expect(copy).not.toBe(e);
+    expect(copy).toBeInstanceOf(FetchError);
+    expect(copy.data).toEqual({ url: '/api', retryCount: 2 });
+    expect(Object.isFrozen(copy.data)).toBe(true);
+    expect(copy.message).toBe('Request failed');
+    expect(copy.stack).toBe(e.stack);
+    expect(copy.httpStatus).toBe(502);
+    expect(e.data).toEqual({ url: '/api' });
+  });
+
+  it('keeps the class of extended errors', () => {
+    const e = new TimeoutError('Timed out', { url: '/api', ms: 500 });
+    const copy = updateError(e, { data: { ms: 1000 }, message: 'Timed out twice' });
+
+    expectTypeOf(copy).toEqualTypeOf<typeof e>();
+    expect(copy).toBeInstanceOf(TimeoutError);
+    expect(copy.tag).toBe('PatchedTimeoutError');
+    expect(copy.data).toEqual({ url: '/api', ms: 1000 });
+    expect(copy.message).toBe('Timed out twice');
+    expect(copy.stack).toBe(e.stack);
+  });
+
+  it('keeps or replaces the cause and the context', () => {
+    const root = new Error('socket closed');
+    const e = withErrorContext({ requestId: 'r1' }, () => new FetchError('Request failed', { url: '/api' }, { cause: root }));
+
+    expect(e.with({}).cause).toBe(root);
+    expect(e.with({ cause: undefined }).cause).toBeUndefined();
+    expect(e.with({ context: { attempt: 2 } }).context).toEqual({ requestId: 'r1', attempt: 2 });
+    expect(withErrorContext({ requestId: 'r2' }, () => e.with({})).context).toEqual({ requestId: 'r1' });
+  });
+
+  it('derives a templated message again from the patched data', () => {
+    const HttpError = defineError('PatchedHttpError', { message: 'HTTP {status}' })<{ status: number }>();
+    const Child = HttpError.extend('PatchedNotFoundError', { message: 'Not found ({status})' })();
+
+    expect(new HttpError({ status: 500 }).with({ data: { status: 404 } }).message).toBe('HTTP 404');
+    expect(new HttpError('Custom', { status: 500 }).with({ data: { status: 404 } }).message).toBe('Custom');
+    expect(new HttpError({ status: 500 }).with({ message: 'Given' }).message).toBe('Given');
+    expect(new Child({ status: 410 }).with({ data: { status: 404 } }).message).toBe('Not found (404)');
+    const untemplated = new FetchError({ url: '/a' }).with({ data: { url: '/b' } });
+    expect(untemplated.message).toBe('PatchedFetchError');
+  });
+
+  it('validates the patched data', () => {
+    const Positive = defineError('PositiveError', {
+      schema: (d: unknown): d is { n: number } => typeof (d as { n?: unknown }).n === 'number' && (d as { n: number }).n > 0,
+    })();
+    const e = new Positive('x', { n: 1 });
+    expect(() => e.with({ data: { n: -1 } })).toThrow(InvalidErrorDataError);
+  });
+
+  it('skips hand-written constructors', () => {
+    const e = new UnexpectedError('boom');
+    const copy = e.with({ message: 'still boom' });
+    expect(copy).toBeInstanceOf(UnexpectedError);
+    expect(copy.message).toBe('still boom');
+    expect(copy.cause).toBe('boom');
+  });
+
+  it('type-checks the patched data keys', () => {
+    const e = new FetchError('Request failed', { url: '/api' });
+    // @ts-expect-error unknown data key
+    e.with({ data: { status: 500 } });
+    // @ts-expect-error wrong data type
+    updateError(e, { data: { retryCount: 'two' } });
+  });
+});
+
+describe('aggregate errors', () => {
+  const RowError = defineError('RowError')<{ row: number }>();
+  const UploadError = defineError('UploadError')<{ url: string }>();
+  const BatchError = defineAggregateError('BatchError')<InstanceType<typeof RowError> | InstanceType<typeof UploadError>, { batchId: string }>();
+  const Native = (globalThis as unknown as { AggregateError: new (errors: unknown[], message?: string) => Error & { errors: unknown[] } }).AggregateError;
+
+  const row = (n: number) => new RowError('bad row', { row: n });
+  const upload = new UploadError('upload failed', { url: '/u' });
+
+  it('holds typed members', () => {
+    const e = new BatchError({ batchId: 'b1', errors: [row(1), upload] });
+    expect(e.message).toBe('2 errors');
+    expect(e.data.batchId).toBe('b1');
+    expect(Object.isFrozen(e.data.errors)).toBe(true);
+    expectTypeOf(e.data.errors).toEqualTypeOf<readonly (InstanceType<typeof RowError> | InstanceType<typeof UploadError>)[]>();
+    expect(new BatchError('Import failed', { batchId: 'b2', errors: [row(1)] }).message).toBe('Import failed');
+    expect(() => new BatchError({ batchId: 'b3', errors: 'nope' as any })).toThrow(InvalidErrorDataError);
+  });
+
+  it('matches on every or some members', () => {
+    const describeBatch = (e: unknown) => matchError(e)
+      .withEvery(BatchError, RowError, (batch, rows) => `${batch.data.batchId}: ${rows.map(r => r.data.row).join(',')}`)
+      .withSome(BatchError, UploadError, (_batch, uploads) => `retry ${uploads[0].data.url}`)
+      .otherwise(() => 'other');
+
+    expect(describeBatch(new BatchError({ batchId: 'b1', errors: [row(1), row(2)] }))).toBe('b1: 1,2');
+    expect(describeBatch(new BatchError({ batchId: 'b1', errors: [row(1), upload] }))).toBe('retry /u');
+    expect(describeBatch(new BatchError({ batchId: 'b1', errors: [] }))).toBe('other');
+    expect(describeBatch(row(1))).toBe('other');
+  });
+
+  it('matches native AggregateError', async () => {
+    const promises = Promise as unknown as { any: (ps: Promise<unknown>[]) => Promise<unknown> };
+    const e = await promises.any([Promise.reject(row(1)), Promise.reject(row(2))]).catch(x => x);
+    expect(e).toBeInstanceOf(Native);
+    const out = await matchErrorAsync(e)
+      .withEvery(Native, RowError, async (_e, rows) => rows.length)
+      .otherwise(async () => 0);
+    expect(out).toBe(2);
+  });
+
+  it('flattens nested aggregates', () => {
+    const inner = new BatchError({ batchId: 'inner', errors: [row(2)] });
+    const outer = new Native([row(1), inner, upload]);
+    expect(flatten(outer)).toEqual([row(1), row(2), upload]);
+    expect(flatten(row(3))).toEqual([row(3)]);
+
+    const leaves = flatten(new BatchError({ batchId: 'b', errors: [row(1)] }));
+    expectTypeOf(leaves).toEqualTypeOf<(InstanceType<typeof RowError> | InstanceType<typeof UploadError>)[]>();
+  });
+
+  it('groups members by tag', () => {
+    const groups = groupByTag(new BatchError({ batchId: 'b', errors: [row(1), upload, row(2)] }));
+    expect(groups.RowError?.map(e => e.data.row)).toEqual([1, 2]);
+    expect(groups.UploadError).toEqual([upload]);
+    expectTypeOf(groups.RowError).toEqualTypeOf<InstanceType<typeof RowError>[] | undefined>();
+
+    expect(Object.keys(groupByTag([new TypeError('t'), 'oops', row(1)]))).toEqual(['TypeError', 'UnknownError', 'RowError']);
+  });
+
+  it('serializes and restores members', () => {
+    const e = new BatchError({ batchId: 'b1', errors: [row(1), upload] });
+    const serialized = serialize(e, false);
+    expect(serialized.data).toEqual({ batchId: 'b1' });
+    expect(serialized.errors?.map(m => m.tag)).toEqual(['RowError', 'UploadError']);
+
+    const restored = deserialize(JSON.parse(JSON.stringify(serialized)), [BatchError, RowError, UploadError]);
+    expect(restored).toBeInstanceOf(BatchError);
+    const members = (restored as InstanceType<typeof BatchError>).data.errors;
+    expect(members[0]).toBeInstanceOf(RowError);
+    expect(members[1]).toBeInstanceOf(UploadError);
+
+    const generic = deserialize(serialize(new Native([row(1)], 'any failed'))) as Error & { errors: unknown[] };
+    expect(generic.errors).toHaveLength(1);
+    expect((generic.errors[0] as { tag: string }).tag).toBe('RowError');
+
+    const unknownBatch = deserialize(serialize(new BatchError({ batchId: 'b1', errors: [row(1)] })));
+    expect(flatten(unknownBatch)).toHaveLength(1);
+  });
+
+  it('treats an errors field in the data of other errors as data', () => {
+    const FormError = defineError('FormError')<{ errors: string[] }>();
+    const e = new FormError('bad', { errors: ['name is required'] });
+
+    const serialized = serialize(e, false);
+    expect(serialized.data).toEqual({ errors: ['name is required'] });
+    expect(serialized.errors).toBeUndefined();
+    expect((deserialize(serialized, [FormError]) as typeof e).data.errors).toEqual(['name is required']);
+    expect(flatten(e)).toEqual([e]);
+    expect(matchError(e).withSome(FormError, RowError, () => 'some').otherwise(() => 'other')).toBe('other');
+    expect(formatError(e, { colors: false })).not.toContain('aggregated');
+  });
+});
+
+describe('object patterns', () => {
+  const Coded = defineError('PatternCodedError', { code: 'E_CODED' })<{ attempt: number }>();
+  const Http = defineError('PatternHttpError')<{ code: number; headers: { retryAfter?: number } }>();
+
+  type NetError = InstanceType<typeof Net>;
+  type AuthError = InstanceType<typeof Auth>;
+  type ParseError = InstanceType<typeof Parse>;
+
+  const describeNet = (e: unknown) => matchError(e)
+    .with(Net, { status: 404 }, () => 'not found')
+    .with(Net, { status: P.gte(500), url: P.regex(/^\/api/) }, e => `api down: ${e.data.status}`)
+    .with(Net, { status: P.oneOf(401, 403) }, e => `denied: ${e.data.status}`)
+    .with(Net, () => 'network')
+    .otherwise(() => 'other');
+
+  it('matches data fields against literals and helpers', () => {
+    expect(describeNet(new Net('x', { status: 404, url: '/api' }))).toBe('not found');
+    expect(describeNet(new Net('x', { status: 503, url: '/api/users' }))).toBe('api down: 503');
+    expect(describeNet(new Net('x', { status: 503, url: '/static' }))).toBe('network');
+    expect(describeNet(new Net('x', { status: 403, url: '/' }))).toBe('denied: 403');
+    expect(describeNet(new Auth('x', { reason: 'expired' }))).toBe('other');
+  });
+
+  it('matches message and code', () => {
+    const match = (e: unknown) => matchError(e)
+      .with(Coded, { code: P.not('E_CODED') }, () => 'other code')
+      .with(Coded, { code: 'E_CODED', message: P.regex(/timed out/) }, e => `timeout after ${e.data.attempt}`)
+      .with(Http, { code: 429 }, () => 'data code')
+      .otherwise(() => 'none');
+
+    expect(match(new Coded('request timed out', { attempt: 2 }))).toBe('timeout after 2');
+    expect(match(new Coded('refused', { attempt: 2 }))).toBe('none');
+    expect(match(new Http('x', { code: 429, headers: {} }))).toBe('data code');
+  });
+
+  it('supports nested patterns and the other helpers', () => {
+    const match = (e: unknown) => matchError(e)
+      .with(Http, { headers: { retryAfter: P.nullish } }, () => 'no retry')
+      .with(Http, { code: P.not(P.oneOf(429, 503)) }, () => 'fatal')
+      .with(Http, { headers: { retryAfter: P.when((n: unknown) => typeof n === 'number' && n > 60) } }, () => 'later')
+      .with(Http, { headers: P.any }, e => `retry in ${e.data.headers.retryAfter}`)
+      .otherwise(() => 'none');
+
+    expect(match(new Http('x', { code: 503, headers: {} }))).toBe('no retry');
+    expect(match(new Http('x', { code: 500, headers: { retryAfter: 1 } }))).toBe('fatal');
+    expect(match(new Http('x', { code: 503, headers: { retryAfter: 120 } }))).toBe('later');
+    expect(match(new Http('x', { code: 429, headers: { retryAfter: 5 } }))).toBe('retry in 5');
+    expect(P.string.test('a') && P.number.test(1) && P.boolean.test(false)).toBe(true);
+    expect(P.lt(1).test(1) || P.gt(1).test(1) || P.lte(1).test('1')).toBe(false);
+  });
+
+  it('narrows the handler input', () => {
+    matchErrorOf<Err>(new Auth('x', { reason: 'expired' }))
+      .with(Auth, { reason: 'expired' }, e => expectTypeOf(e.data.reason).toEqualTypeOf<'expired'>())
+      .with(Net, { status: 404, url: P.string }, e => expectTypeOf(e.data.status).toEqualTypeOf<404>())
+      .with(Net, { status: P.gte(500) }, e => expectTypeOf(e.data.status).toEqualTypeOf<number>())
+      .otherwise(() => undefined);
+
+    // @ts-expect-error 'revoked' is not a reason
+    matchError(null).with(Auth, { reason: 'revoked' }, () => 0);
+  });
+
+  it('counts patterns on literal-union fields toward exhaustiveness', () => {
+    expectTypeOf<PatternNext<Err, typeof Auth, { reason: 'expired' | 'forbidden' }>>()
+      .toEqualTypeOf<NetError | ParseError>();
+    expectTypeOf<PatternNext<Err, typeof Net, { status: 404 }>>().toEqualTypeOf<Err>();
+    expectTypeOf<PatternNext<Err, typeof Net, {}>>().toEqualTypeOf<AuthError | ParseError>();
+
+    const rest = matchErrorOf<Err>(new Auth('x', { reason: 'forbidden' }))
+      .with(Auth, { reason: 'expired' }, () => 'refresh')
+      .with(Auth, { reason: P.oneOf('forbidden') }, () => 'deny')
+      .with(Parse, { at: P.string }, () => 'parse');
+    expectTypeOf(rest).toEqualTypeOf<Matcher<NetError, string>>();
+    expect(rest.with(Net, () => 'network').exhaustive()).toBe('deny');
+  });
+
+  it('matches patterns asynchronously', async () => {
+    const out = await matchErrorOfAsync<Err>(new Net('x', { status: 502, url: '/' }))
+      .with(Net, { status: P.gte(500) }, async e => e.data.status)
+      .otherwise(async () => 0);
+    expect(out).toBe(502);
+    expect(await matchErrorAsync(new Net('x', { status: 404, url: '/' }))
+      .with(Net, { status: 404 }, async () => 'not found')
+      .otherwise(async () => 'other')).toBe('not found');
+  });
+});
+
+describe('matcher types', () => {
+  const e = new Auth('nope', { reason: 'forbidden' }) as Err;
+
+  it('infers the union of the handler return types', () => {
+    const out = matchErrorOf<Err>(e)
+      .with(Net, err => err.data.status)
+      .select(Parse, 'at', at => at)
+      .with(Auth, () => null)
+      .exhaustive();
+    expectTypeOf(out).toEqualTypeOf<number | string | null>();
+    expect(out).toBeNull();
+
+    const partial = matchErrorOf<Err>(e)
+      .with(Net, () => 1)
+      .otherwise(() => false);
+    expectTypeOf(partial).toEqualTypeOf<number | boolean>();
+
+    const free = matchError(e)
+      .withAny([Net, Parse], err => err.message)
+      .when(() => true, () => 0)
+      .otherwise(() => undefined);
+    expectTypeOf(free).toEqualTypeOf<string | number | undefined>();
+    expect(free).toBe(0);
+  });
+
+  it('infers the resolved values of async handlers', async () => {
+    const out = await matchErrorOfAsync<Err>(e)
+      .withAny([Net, Parse], async () => 1)
+      .with(Auth, async err => err.data.reason)
+      .exhaustive();
+    expectTypeOf(out).toEqualTypeOf<number | 'expired' | 'forbidden'>();
+    expect(out).toBe('forbidden');
+
+    const free = matchErrorAsync(e).with(Auth, async () => 'auth').otherwise(async () => 0);
+    expectTypeOf(free).toEqualTypeOf<Promise<string | number>>();
+  });
+
+  it('tracks the remaining cases through every step', () => {
+    const out = matchErrorOf<Err>(e)
+      .withNot([Net, Auth], err => err.data.at)
+      .withAny([Net, Auth], () => 'net or auth')
+      .exhaustive();
+    expect(out).toBe('net or auth');
+
+    const afterNot = matchErrorOf<Err>(e).withNot(Parse, () => 0);
+    expectTypeOf(afterNot).toEqualTypeOf<Matcher<InstanceType<typeof Parse>, number>>();
+  });
+
+  it('names the unhandled errors', () => {
+    expectTypeOf<ExhaustiveThis<'self', never>>().toEqualTypeOf<'self'>();
+    expectTypeOf<ExhaustiveThis<'self', Err>>()
+      .toEqualTypeOf<'unhandled: NetworkError' | 'unhandled: AuthError' | 'unhandled: ParseError'>();
+    expectTypeOf<ExhaustiveThis<'self', TypeError>>().toEqualTypeOf<'unhandled: errors without tag'>();
+
+    const unfinished = matchErrorOf<Err>(new Parse('bad', { at: '1:1' })).with(Net, () => 1).with(Auth, () => 2);
+    // @ts-expect-error unhandled: ParseError
+    expect(() => unfinished.exhaustive()).toThrow('Non-exhaustive matchErrorOf');
+  });
+});
+
+describe('createMatcher', () => {
+  const Timeout = Net.extend('CompiledTimeoutError')<{ ms: number }>();
+  const parse = new Parse('bad', { at: '1:1' });
+
+  const toStatus = createMatcher<Err>()
+    .with(Net, { status: 404 }, () => 404)
+    .with(Net, () => 502)
+    .with(Auth, () => 401)
+    .select(Parse, 'at', at => at.length)
+    .exhaustive();
+
+  it('returns a reusable function', () => {
+    expect(toStatus(new Net('x', { status: 404, url: '/' }))).toBe(404);
+    expect(toStatus(new Net('x', { status: 500, url: '/' }))).toBe(502);
+    expect(toStatus(new Auth('x', { reason: 'expired' }))).toBe(401);
+    expect(toStatus(parse)).toBe(3);
+    expect(toStatus(new Timeout('slow', { status: 504, url: '/', ms: 10 }))).toBe(502);
+    expect(() => toStatus(new Error('other'))).toThrow('Non-exhaustive createMatcher');
+    expectTypeOf(toStatus).toEqualTypeOf<(e: unknown) => number>();
+  });
+
+  it('keeps the order of the cases', () => {
+    const match = createMatcher<Err | TypeError>()
+      .when(e => e instanceof Error && e.message === 'first', () => 'when')
+      .with(Parse, () => 'parse')
+      .with(TypeError, () => 'type')
+      .withNot([Parse, TypeError], () => 'other')
+      .otherwise(() => 'fallback');
+
+    expect(match(new Parse('first', { at: '' }))).toBe('when');
+    expect(match(parse)).toBe('parse');
+    expect(match(new TypeError('t'))).toBe('type');
+    expect(match(new Auth('x', { reason: 'expired' }))).toBe('other');
+    expect(match('not an error')).toBe('other');
+  });
+
+  it('matches errors from other copies of the package by lineage', () => {
+    const foreign = Object.assign(new Error('x'), { [Symbol.for('ts-typed-errors.lineage')]: ['AuthError'] });
+    expect(toStatus(foreign)).toBe(401);
+  });
+
+  it('applies transforms and ignores cases added afterwards', () => {
+    const builder = createMatcher<Err>()
+      .map(e => (e as { error?: unknown }).error ?? e)
+      .with(Auth, () => 'auth');
+    const match = builder.otherwise(() => 'other');
+    builder.with(Net, () => 'net');
+
+    expect(match({ error: new Auth('x', { reason: 'forbidden' }) })).toBe('auth');
+    expect(match(new Net('x', { status: 1, url: '/' }))).toBe('other');
+  });
+});
+
+describe('case order and diagnostics', () => {
+  const Timeout = Net.extend('OrderTimeoutError')<{ ms: number }>();
+  const net = new Net('down', { status: 503, url: '/' });
+
+  it('runs the first matching case, whatever its kind', () => {
+    const isDown = (e: unknown): e is InstanceType<typeof Net> => e instanceof Net && e.data.status === 503;
+    expect(matchError(net).when(e => e === net, () => 'when').with(Net, () => 'ctor').otherwise(() => 'none')).toBe('when');
+    expect(matchError(net).with(isDown, () => 'guard').with(Net, () => 'ctor').otherwise(() => 'none')).toBe('guard');
+    expect(matchError(net).with(Net, () => 'first').with(Net, () => 'second').otherwise(() => 'none')).toBe('first');
+    expect(matchErrorOf<Err>(new Timeout('slow', { status: 504, url: '/', ms: 1 }))
+      .with(Net, () => 'net')
+      .with(Timeout, () => 'timeout')
+      .otherwise(() => 'none')).toBe('net');
+  });
+
+  it('reports duplicate, unreachable and shadowed cases', () => {
+    const found: string[] = [];
+    configure({ onMatcherDiagnostic: d => found.push(`${d.kind} ${d.index} by ${d.by}: ${d.label}`) });
+    try {
+      matchError(net)
+        .with(Net, () => 1)
+        .with(Net, () => 2)
+        .with(Timeout, { ms: 1 }, () => 3)
+        .withAny([Timeout, Auth], () => 4)
+        .withNot(Auth, () => 5)
+        .with(Parse, () => 6)
+        .when(() => true, () => 7)
+        .otherwise(() => 0);
+      expect(found).toEqual([
+        'duplicate 1 by 0: .with(NetworkError)',
+        'unreachable 2 by 0: .with(OrderTimeoutError, pattern)',
+        'shadowed 3 by 0: .withAny([OrderTimeoutError, AuthError])',
+        'unreachable 5 by 4: .with(ParseError)',
+      ]);
+
+      found.length = 0;
+      matchError(net).with(Timeout, () => 1).with(Net, () => 2).withNot(Net, () => 3).with(Timeout, () => 4).otherwise(() => 0);
+      createMatcher<Err>().with(Net, { status: 404 }, () => 1).with(Net, () => 2).otherwise(() => 0);
+      expect(found).toEqual(['duplicate 3 by 0: .with(OrderTimeoutError)']);
+    } finally {
+      configure({ onMatcherDiagnostic: 'ignore' });
+    }
+  });
+
+  it('applies the diagnostic policy', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const run = () => matchError(net).with(Auth, () => 1).withAny([Auth], () => 2).otherwise(() => 0);
+      run();
+      expect(warn).not.toHaveBeenCalled();
+
+      configure({ onMatcherDiagnostic: 'warn' });
+      run();
+      run();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('.withAny([AuthError]) (case 1) repeats .with(AuthError) (case 0)');
+
+      configure({ onMatcherDiagnostic: 'throw' });
+      expect(run).toThrow(TypeError);
+      // Thrown by the case, before any matching
+      expect(() => matchErrorAsync(net).with(Auth, async () => 1).with(Auth, async () => 2)).toThrow('repeats');
+    } finally {
+      configure({ onMatcherDiagnostic: 'ignore' });
+      warn.mockRestore();
+    }
+  });
+
+  it('diagnoses each case once, when it is added', () => {
+    const found: string[] = [];
+    configure({ onMatcherDiagnostic: d => found.push(d.message) });
+    try {
+      const toStatus = createMatcher<Err>().with(Net, () => 502).with(Net, () => 503).otherwise(() => 500);
+      expect(found).toHaveLength(1);
+
+      configure({ onMatcherDiagnostic: 'throw' });
+      expect([toStatus(net), toStatus(net)]).toEqual([502, 502]);
+      expect(found).toHaveLength(1);
+    } finally {
+      configure({ onMatcherDiagnostic: 'ignore' });
+    }
+  });
+});
+
+describe('debug traces', () => {
+  const net = new Net('down', { status: 503, url: '/' });
+
+  it('records the cases tested and their outcome', () => {
+    const traces: MatchTrace[] = [];
+    const isAuth = (e: unknown): e is InstanceType<typeof Auth> => e instanceof Auth;
+    const result = matchError(net)
+      .debug(trace => traces.push(trace))
+      .with(isAuth, () => 'guard')
+      .withNot(Net, () => 'not')
+      .select(Parse, 'at', () => 'select')
+      .when(function isTimeout() { return false; }, () => 'when')
+      .with(Net, { status: P.gte(500) }, () => 'server')
+      .with(Net, () => 'net')
+      .otherwise(() => 'other');
+
+    expect(result).toBe('server');
+    expect(traces).toHaveLength(1);
+    expect(traces[0].error).toBe(net);
+    expect(traces[0].matched).toBe(4);
+    expect(traces[0].steps).toEqual([
+      { index: 0, kind: 'guard', label: '.with(isAuth)', matched: false },
+      { index: 1, kind: 'withNot', label: '.withNot(NetworkError)', matched: false },
+      { index: 2, kind: 'select', label: ".select(ParseError, 'at')", matched: false },
+      { index: 3, kind: 'when', label: '.when(isTimeout)', matched: false },
+      { index: 4, kind: 'pattern', label: '.with(NetworkError, pattern)', matched: true },
+    ]);
+    expect(formatTrace(traces[0])).toBe([
+      'matching NetworkError: down',
+      '  ✗ 0 .with(isAuth) [guard]',
+      '  ✗ 1 .withNot(NetworkError) [withNot]',
+      "  ✗ 2 .select(ParseError, 'at') [select]",
+      '  ✗ 3 .when(isTimeout) [when]',
+      '  ✓ 4 .with(NetworkError, pattern) [pattern]',
+    ].join('\n'));
+  });
+
+  it('logs with console.debug by default', async () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    try {
+      await matchErrorOfAsync<Err>(net).debug().withAny([Auth, Parse], async () => 1).otherwise(async () => 0);
+      expect(debug).toHaveBeenCalledTimes(1);
+      expect(debug.mock.calls[0][0]).toBe(
+        '[ts-typed-errors] matching NetworkError: down\n  ✗ 0 .withAny([AuthError, ParseError]) [withAny]\n  no case matched'
+      );
+    } finally {
+      debug.mockRestore();
+    }
+  });
+
+  it('attaches the trace to the non-exhaustive error', async () => {
+    const foreign = new TypeError('foreign');
+    const unmatched = (e: unknown) => {
+      try {
+        matchErrorOf<Err>(e).with(Net, () => 1).withAny([Auth, Parse], () => 2).exhaustive();
+      } catch (failure) {
+        return failure;
+      }
+    };
+    const failure = unmatched(foreign);
+    expect(NonExhaustiveMatchError.is(failure)).toBe(true);
+    if (!NonExhaustiveMatchError.is(failure)) return;
+    expect(failure.message).toBe('Non-exhaustive matchErrorOf');
+    expect(failure.data.error).toBe(foreign);
+    expect(failure.data.trace.steps.map(s => [s.kind, s.label, s.matched])).toEqual([
+      ['ctor', '.with(NetworkError)', false],
+      ['withAny', '.withAny([AuthError, ParseError])', false],
+    ]);
+
+    await expect(matchErrorOfAsync<Err>(foreign).with(Net, async () => 1).withAny([Auth, Parse], async () => 2).exhaustive())
+      .rejects.toThrow(NonExhaustiveMatchError);
+    const toStatus = createMatcher<Err>().with(Net, () => 1).withAny([Auth, Parse], () => 2).exhaustive();
+    expect(() => toStatus(foreign)).toThrow(NonExhaustiveMatchError);
+  });
 });
@@ -26,7 +26,7 @@ describe('Integration tests - Full API usage', () => {
       .with(NetworkError, e => `Network: ${e.data.status}`)
       .with(ValidationError, e => `Validation: ${e.data.field} = ${e.data.value}`)
       .with(ParseError, e => `Parse: ${e.data.at}`)
-      .otherwise(e => `Unknown: ${e.message}`);
+      .otherwise(e => `Unknown: ${(e as Error).message}`);
     
     expect(result).toBe('Validation: email = not-an-email');
   });
@@ -0,0 +1,356 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  defineError, matchErrorOf, matchErrorOfAsync, AsyncResult, gen, wrap, UnexpectedError, CollectedError, Result, ok, err, isOk, isErr, map, mapErr, andThen, orElse,
+  unwrapOr, unwrapOrElse, match, tap, tapErr, unwrap, expect as expectOk, UnwrapError, $,
+} from '../src';
+import type { CollectedErrorOf } from '../src';
+
+const Net = defineError('NetworkError')<{ status: number; url: string }>();
+const Parse = defineError('ParseError')<{ at: string }>();
+
+type NetErr = InstanceType<typeof Net>;
+type ParseErr = InstanceType<typeof Parse>;
+
+type User = { id: string; name: string };
+type Order = { id: string; total: number };
+
+const getUser = (id: string): Result<User, NetErr> =>
+  id === 'missing'
+    ? err(new Net('not found', { status: 404, url: `/users/${id}` }))
+    : ok({ id, name: 'Ada' });
+
+const getOrder = (user: User): Result<Order, ParseErr> =>
+  user.name === 'Ada' ? ok({ id: 'o1', total: 42 }) : err(new Parse('bad order', { at: user.id }));
+
+describe('ok / err', () => {
+  it('builds both branches', () => {
+    expect(ok(1)).toEqual({ ok: true, value: 1 });
+    expect(err('x')).toEqual({ ok: false, error: 'x' });
+  });
+
+  it('narrows with isOk and isErr', () => {
+    const r = getUser('1');
+    expect(isOk(r)).toBe(true);
+    expect(isErr(r)).toBe(false);
+    if (isOk(r)) expectTypeOf(r.value).toEqualTypeOf<User>();
+
+    const failed = getUser('missing');
+    if (isErr(failed)) expectTypeOf(failed.error).toEqualTypeOf<NetErr>();
+    expect(isErr(failed)).toBe(true);
+  });
+});
+
+describe('map / mapErr', () => {
+  it('maps the value and leaves errors untouched', () => {
+    expect(map(getUser('1'), u => u.name)).toEqual({ ok: true, value: 'Ada' });
+    const failed = map(getUser('missing'), u => u.name);
+    expect(failed.ok).toBe(false);
+  });
+
+  it('maps the error and leaves values untouched', () => {
+    const r = mapErr(getUser('missing'), e => e.data.status);
+    expect(r).toEqual({ ok: false, error: 404 });
+    expectTypeOf(r).toEqualTypeOf<Result<User, number>>();
+    expect(mapErr(getUser('1'), () => 0).ok).toBe(true);
+  });
+});
+
+describe('andThen / orElse', () => {
+  it('accumulates error types across steps', () => {
+    const r = andThen(getUser('1'), getOrder);
+    expectTypeOf(r).toEqualTypeOf<Result<Order, NetErr | ParseErr>>();
+    expect(r).toEqual({ ok: true, value: { id: 'o1', total: 42 } });
+  });
+
+  it('short-circuits on the first error', () => {
+    let called = false;
+    const r = andThen(getUser('missing'), (u) => { called = true; return getOrder(u); });
+    expect(called).toBe(false);
+    expect(r.ok).toBe(false);
+    if (!r.ok) {
+      const out = matchErrorOf<NetErr | ParseErr>(r.error)
+        .with(Net, e => e.data.status)
+        .with(Parse, () => 0)
+        .exhaustive();
+      expect(out).toBe(404);
+    }
+  });
+
+  it('recovers from errors', () => {
+    const r = orElse(getUser('missing'), () => ok({ id: 'guest', name: 'Guest' }));
+    expect(r).toEqual({ ok: true, value: { id: 'guest', name: 'Guest' } });
+    expect(orElse(getUser('1'), () => err('never')).ok).toBe(true);
+  });
+});
+
+describe('unwrapOr / unwrapOrElse / match', () => {
+  it('falls back on failure', () => {
+    expect(unwrapOr(map(getUser('missing'), u => u.name), 'anonymous')).toBe('anonymous');
+    expect(unwrapOrElse(getUser('missing'), e => e.data.url)).toBe('/users/missing');
+    expect(unwrapOr(map(getUser('1'), u => u.name), 'anonymous')).toBe('Ada');
+  });
+
+  it('folds both branches', () => {
+    const handlers = { ok: (u: User) => `hi ${u.name}`, err: (e: NetErr) => `HTTP ${e.data.status}` };
+    expect(match(getUser('1'), handlers)).toBe('hi Ada');
+    expect(match(getUser('missing'), handlers)).toBe('HTTP 404');
+  });
+});
+
+describe('tap / tapErr', () => {
+  it('runs side effects on the matching branch only', () => {
+    const seen: string[] = [];
+    const r = getUser('1');
+    expect(tap(r, u => seen.push(u.name))).toBe(r);
+    tapErr(r, () => seen.push('error'));
+    tapErr(getUser('missing'), e => seen.push(e.message));
+    expect(seen).toEqual(['Ada', 'not found']);
+  });
+});
+
+describe('unwrap / expect', () => {
+  it('returns the value of a successful Result', () => {
+    expect(unwrap(getUser('1')).name).toBe('Ada');
+    expect(expectOk(getUser('1'), 'user required').id).toBe('1');
+  });
+
+  it('throws an UnwrapError holding the original error', () => {
+    const r = getUser('missing');
+    expect(() => unwrap(r)).toThrow(UnwrapError);
+    try {
+      expectOk(r, 'user required');
+    } catch (e) {
+      expect(UnwrapError.is(e)).toBe(true);
+      expect((e as InstanceType<typeof UnwrapError>).message).toBe('user required');
+      expect((e as InstanceType<typeof UnwrapError>).data.error).toBeInstanceOf(Net);
+    }
+  });
+});
+
+describe('AsyncResult', () => {
+  const fetchUser = async (id: string): Promise<Result<User, NetErr>> => getUser(id);
+  const fetchOrder = (user: User) => AsyncResult.from(getOrder(user));
+
+  it('chains steps and is awaited once', async () => {
+    const r = await AsyncResult.from(fetchUser('1'))
+      .andThen(fetchOrder)
+      .map(async order => order.total * 2);
+    expectTypeOf(r).toEqualTypeOf<Result<number, NetErr | ParseErr>>();
+    expect(r).toEqual({ ok: true, value: 84 });
+  });
+
+  it('short-circuits and maps errors', async () => {
+    const seen: string[] = [];
+    const r = await AsyncResult.from(fetchUser('missing'))
+      .tap(() => seen.push('ok'))
+      .tapErr(e => seen.push(e.message))
+      .andThen(fetchOrder)
+      .mapErr(e => e.tag);
+    expect(r).toEqual({ ok: false, error: 'NetworkError' });
+    expect(seen).toEqual(['not found']);
+  });
+
+  it('recovers with orElse and unwrapOr', async () => {
+    const guest = await AsyncResult.err('offline')
+      .orElse(async () => ok({ id: 'guest', name: 'Guest' }))
+      .map(u => u.name)
+      .unwrapOr('nobody');
+    expect(guest).toBe('Guest');
+    expect(await AsyncResult.err('x').unwrapOr('fallback')).toBe('fallback');
+    expect(await AsyncResult.ok(1).unwrapOr(0)).toBe(1);
+  });
+
+  it('matches the error branch exhaustively with matchErrorOfAsync', async () => {
+    const out = await AsyncResult.from(fetchUser('missing'))
+      .andThen(fetchOrder)
+      .match({
+        ok: order => order.id,
+        err: e => matchErrorOfAsync(e)
+          .with(Net, async () => 'network')
+          .with(Parse, async () => 'parse')
+          .exhaustive(),
+      });
+    expect(out).toBe('network');
+  });
+
+  it('lifts rejecting promises', async () => {
+    const r = await AsyncResult.fromPromise(Promise.reject(new Net('x', { status: 500, url: '/' })), { errors: [Net] });
+    expect(!r.ok && r.error).toBeInstanceOf(Net);
+    expect(await AsyncResult.fromPromise(Promise.resolve(3))).toEqual({ ok: true, value: 3 });
+  });
+});
+
+describe('gen', () => {
+  it('runs dependent steps and infers the error union', () => {
+    const r = gen(function* () {
+      const user = yield* $(getUser('1'));
+      const order = yield* $(getOrder(user));
+      return order.total;
+    });
+    expectTypeOf(r).toEqualTypeOf<Result<number, NetErr | ParseErr>>();
+    expect(r).toEqual({ ok: true, value: 42 });
+  });
+
+  it('short-circuits on the first error and runs finally blocks', () => {
+    const steps: string[] = [];
+    const r = gen(function* () {
+      try {
+        const user = yield* $(getUser('missing'));
+        steps.push('after user');
+        return yield* $(getOrder(user));
+      } finally {
+        steps.push('cleanup');
+      }
+    });
+    expect(steps).toEqual(['cleanup']);
+    expect(!r.ok && r.error).toBeInstanceOf(Net);
+  });
+
+  it('supports async generators with wrapped functions and AsyncResults', async () => {
+    const fetchUser = wrap(async (id: string) => {
+      if (id === 'missing') throw new Net('not found', { status: 404, url: `/users/${id}` });
+      return { id, name: 'Ada' } as User;
+    }, { errors: [Net] });
+
+    const pending = gen(async function* () {
+      const user = yield* $(await fetchUser('1'));
+      const order = yield* AsyncResult.from(getOrder(user));
+      return `${user.name}:${order.id}`;
+    });
+    expect(pending).toBeInstanceOf(AsyncResult);
+    const r = await pending;
+    expectTypeOf(r).toEqualTypeOf<Result<string, NetErr | UnexpectedError | ParseErr>>();
+    expect(r).toEqual({ ok: true, value: 'Ada:o1' });
+
+    const failed = await gen(async function* () {
+      return yield* $(await fetchUser('missing'));
+    });
+    expect(!failed.ok && failed.error).toBeInstanceOf(Net);
+  });
+
+  it('accepts plain Result objects', () => {
+    const plain = (): Result<number, string> => ({ ok: true, value: 1 });
+    const failure = (): Result<number, string> => ({ ok: false, error: 'nope' });
+
+    expect(gen(function* () {
+      return (yield* $(plain())) + 1;
+    })).toEqual({ ok: true, value: 2 });
+    const r = gen(function* () {
+      const a = yield* $(plain());
+      const b = yield* $(failure());
+      return a + b;
+    });
+    expectTypeOf(r).toEqualTypeOf<Result<number, string>>();
+    expect(r).toEqual({ ok: false, error: 'nope' });
+  });
+});
+
+describe('Result collections', () => {
+  it('all keeps positional types and fails fast', () => {
+    const both = Result.all([getUser('1'), ok(3)]);
+    expectTypeOf(both).toEqualTypeOf<Result<[User, number], NetErr>>();
+    expect(both).toEqual({ ok: true, value: [{ id: '1', name: 'Ada' }, 3] });
+
+    const failed = Result.all([ok(1), err('first'), err('second')]);
+    expect(failed).toEqual({ ok: false, error: 'first' });
+  });
+
+  it('collect gathers every error into a CollectedError', () => {
+    const r = Result.collect([getUser('missing'), ok(1), err(new Parse('bad', { at: 'x' }))]);
+    expectTypeOf(r).toEqualTypeOf<Result<[User, number, never], CollectedErrorOf<NetErr | ParseErr>>>();
+    expect(r.ok).toBe(false);
+    if (!r.ok) {
+      expect(r.error).toBeInstanceOf(CollectedError);
+      expect(r.error.message).toBe('2 operations failed');
+      expect(r.error.data.errors.map(e => e.tag)).toEqual(['NetworkError', 'ParseError']);
+    }
+    expect(Result.collect([ok(1), ok('a')])).toEqual({ ok: true, value: [1, 'a'] });
+  });
+
+  it('partition splits values from errors', () => {
+    const { values, errors } = Result.partition(['1', 'missing', '2'].map(getUser));
+    expectTypeOf(values).toEqualTypeOf<User[]>();
+    expectTypeOf(errors).toEqualTypeOf<NetErr[]>();
+    expect(values.map(u => u.id)).toEqual(['1', '2']);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('any returns the first success or every error', () => {
+    expect(Result.any([err('a'), ok(1), ok(2)])).toEqual({ ok: true, value: 1 });
+    const none = Result.any([err('a'), err('b')]);
+    expect(!none.ok && none.error.data.errors).toEqual(['a', 'b']);
+  });
+
+  it('exposes the single-Result combinators as well', () => {
+    expect(Result.unwrapOr(Result.map(getUser('1'), u => u.name), 'nobody')).toBe('Ada');
+  });
+});
+
+describe('async Result collections', () => {
+  const delay = <T>(ms: number, r: Result<T, string>) =>
+    new Promise<Result<T, string>>(resolve => setTimeout(() => resolve(r), ms));
+
+  it('allAsync keeps positional types and fails fast', async () => {
+    const r = await Result.allAsync([delay(5, ok(1)), AsyncResult.ok('a'), () => ok(true)]);
+    expectTypeOf(r).toEqualTypeOf<Result<[number, string, boolean], string>>();
+    expect(r).toEqual({ ok: true, value: [1, 'a', true] });
+
+    const failed = await Result.allAsync([delay(20, err('slow')), delay(1, err('fast'))]);
+    expect(failed).toEqual({ ok: false, error: 'fast' });
+  });
+
+  it('respects the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const task = (n: number) => async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      running--;
+      return ok(n);
+    };
+    const r = await Result.collectAsync([1, 2, 3, 4, 5].map(task), { concurrency: 2 });
+    expect(r).toEqual({ ok: true, value: [1, 2, 3, 4, 5] });
+    expect(peak).toBe(2);
+  });
+
+  it('rejects concurrency limits with which no task would start', () => {
+    expect(() => Result.allAsync([ok(1)], { concurrency: Number.NaN })).toThrow(RangeError);
+    expect(() => Result.partitionAsync([ok(1)], { concurrency: 0 })).toThrow(RangeError);
+    expect(() => Result.allSettled([ok(1)], { concurrency: 1.5 })).toThrow('concurrency must be a positive integer');
+  });
+
+  it('stops launching tasks after a failure', async () => {
+    const started: number[] = [];
+    const task = (n: number) => () => {
+      started.push(n);
+      return n === 2 ? err(`failed ${n}`) : ok(n);
+    };
+    const r = await Result.allAsync([1, 2, 3, 4].map(task), { concurrency: 1 });
+    expect(r).toEqual({ ok: false, error: 'failed 2' });
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('collectAsync and partitionAsync settle every task in input order', async () => {
+    const tasks = [delay(10, err('a')), delay(1, ok(1)), delay(5, err('b'))];
+    const collected = await Result.collectAsync(tasks);
+    expect(!collected.ok && collected.error.data.errors).toEqual(['a', 'b']);
+
+    const { values, errors } = await Result.partitionAsync(tasks);
+    expect(values).toEqual([1]);
+    expect(errors).toEqual(['a', 'b']);
+  });
+
+  it('allSettled keeps every Result in input order', async () => {
+    const settled = await Result.allSettled([delay(10, err('a')), delay(1, ok(1)), () => ok(true)]);
+    expectTypeOf(settled).toEqualTypeOf<[Result<never, string>, Result<number, string>, Result<boolean, never>]>();
+    expect(settled).toEqual([{ ok: false, error: 'a' }, { ok: true, value: 1 }, { ok: true, value: true }]);
+  });
+
+  it('anyAsync resolves with the first success to arrive', async () => {
+    const r = await Result.anyAsync([delay(20, ok('slow')), delay(1, ok('fast')), delay(1, err('x'))]);
+    expect(r).toEqual({ ok: true, value: 'fast' });
+    const none = await Result.anyAsync([delay(1, err('a')), delay(2, err('b'))]);
+    expect(!none.ok && none.error.data.errors).toEqual(['a', 'b']);
+  });
+});
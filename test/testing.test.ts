@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { defineError, matchErrorOf, ok, err, NonExhaustiveMatchError } from '../src';
+import { typedErrorMatchers, errorSnapshotSerializer, assertExhaustive } from '../src/testing';
+import type { TypedErrorMatchers } from '../src/testing';
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends TypedErrorMatchers<T> {}
+}
+
+expect.extend(typedErrorMatchers);
+expect.addSnapshotSerializer(errorSnapshotSerializer);
+
+const Net = defineError('NetworkError', { httpStatus: 502 })<{ status: number; url: string }>();
+const Auth = defineError('AuthError')<{ reason: 'expired' | 'forbidden' }>();
+
+type AppError = InstanceType<typeof Net> | InstanceType<typeof Auth>;
+
+describe('typedErrorMatchers', () => {
+  it('checks Ok results', () => {
+    expect(ok(42)).toBeOk();
+    expect(ok({ id: 1 })).toBeOk({ id: 1 });
+    expect(ok(42)).not.toBeOk(43);
+    expect(err(new Error('x'))).not.toBeOk();
+    expect(() => expect(err(new Auth('nope', { reason: 'expired' }))).toBeOk()).toThrow(/expected an Ok Result/);
+  });
+
+  it('checks Err results', () => {
+    const r = err(new Net('down', { status: 503, url: '/api' }));
+    expect(r).toBeErr();
+    expect(r).toBeErr(Net);
+    expect(r).toBeErr(Net, { status: 503 });
+    expect(r).toBeErr(Net, { url: expect.stringMatching(/^\//) });
+    expect(r).not.toBeErr(Auth);
+    expect(r).not.toBeErr(Net, { status: 500 });
+    expect(ok(1)).not.toBeErr();
+    expect(() => expect(r).toBeErr(Auth)).toThrow(/to be AuthError/);
+    expect(() => expect('nope').toBeErr()).toThrow(/expected a Result/);
+  });
+
+  it('checks thrown errors', () => {
+    const fail = () => {
+      throw new Auth('nope', { reason: 'forbidden' });
+    };
+    expect(fail).toThrowTypedError(Auth);
+    expect(fail).toThrowTypedError(Auth, { reason: 'forbidden' });
+    expect(fail).not.toThrowTypedError(Net);
+    expect(() => 1).not.toThrowTypedError(Auth);
+    expect(() => expect(() => 1).toThrowTypedError(Auth)).toThrow(/did not throw/);
+  });
+
+  it('checks rejections', async () => {
+    const rejected = () => Promise.reject(new Net('down', { status: 503, url: '/api' }));
+    await expect(rejected()).toRejectWithTypedError(Net, { status: 503 });
+    await expect(rejected).toRejectWithTypedError(Net);
+    await expect(rejected()).not.toRejectWithTypedError(Auth);
+    await expect(Promise.resolve(1)).not.toRejectWithTypedError(Net);
+  });
+});
+
+describe('errorSnapshotSerializer', () => {
+  it('prints defined errors without stack', () => {
+    const e = new Net('down', { status: 503, url: '/api' }, { cause: new Auth('nope', { reason: 'expired' }) });
+    expect(e).toMatchInlineSnapshot(`
+      NetworkError {
+        "cause": AuthError {
+          "data": {
+            "reason": "expired",
+          },
+          "message": "nope",
+        },
+        "data": {
+          "status": 503,
+          "url": "/api",
+        },
+        "httpStatus": 502,
+        "message": "down",
+      }
+    `);
+  });
+});
+
+describe('assertExhaustive', () => {
+  const samples = {
+    NetworkError: new Net('down', { status: 503, url: '/api' }),
+    AuthError: new Auth('nope', { reason: 'expired' }),
+  };
+
+  it('runs the matcher on every sample', () => {
+    const results = assertExhaustive<AppError, number>(
+      e => matchErrorOf<AppError>(e)
+        .with(Net, () => 503)
+        .with(Auth, () => 401)
+        .exhaustive(),
+      samples
+    );
+    expect(results).toEqual({ NetworkError: 503, AuthError: 401 });
+  });
+
+  it('names the sample a matcher fails on', () => {
+    const handleNetworkOnly = (e: AppError) => matchErrorOf<AppError>(e)
+      .with(Net, () => 503)
+      .otherwise((unhandled: unknown) => {
+        throw unhandled;
+      });
+    expect(() => assertExhaustive<AppError>(handleNetworkOnly, samples)).toThrow('Matcher failed for the AuthError sample: nope');
+  });
+
+  it('keeps the error thrown by the matcher as the cause', () => {
+    const partial = (e: AppError) => matchErrorOf<any>(e).with(Net, () => 503).exhaustive();
+    let failure: unknown;
+    try {
+      assertExhaustive<AppError>(partial, samples);
+    } catch (e) {
+      failure = e;
+    }
+    const cause = (failure as { cause?: unknown }).cause;
+    expect(cause).toBeInstanceOf(NonExhaustiveMatchError);
+    expect((cause as InstanceType<typeof NonExhaustiveMatchError>).data.error).toBe(samples.AuthError);
+    expect((cause as InstanceType<typeof NonExhaustiveMatchError>).data.trace.steps).toHaveLength(1);
+  });
+
+  it('requires a sample of every member', () => {
+    // @ts-expect-error AuthError has no sample
+    assertExhaustive<AppError>(() => 0, { NetworkError: samples.NetworkError });
+  });
+});